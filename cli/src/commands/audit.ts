@@ -0,0 +1,69 @@
+/**
+ * @module commands/audit
+ * @description Checks the contrast of every foreground/background pair in a theme
+ */
+
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import { auditTheme, type AuditLevel, type AuditPairResult } from '../core';
+import { addThemeOptions, resolveTheme, type ThemeCommandOptions } from '../utils/options';
+
+interface AuditCommandOptions extends ThemeCommandOptions {
+  level: AuditLevel;
+  apca?: boolean;
+  json?: boolean;
+}
+
+/**
+ * Renders one pair as a sample of the foreground on its background plus both scores.
+ * @private
+ */
+const formatResult = (result: AuditPairResult): string => {
+  const status = result.passes ? chalk.green('pass') : chalk.red('fail');
+  const sample = chalk.bgHex(result.backgroundColor).hex(result.foregroundColor)(' Aa ');
+  const wcag = `${result.wcag.value.toFixed(2)}:1`.padStart(8);
+  const apca = `Lc ${result.apca.value.toFixed(1)}`.padStart(9);
+  const line = `  ${status} ${sample} ${wcag} ${apca}  ${result.foreground} on ${result.background}`;
+
+  if (!result.suggestion) return line;
+  const { path, color, wcag: ratio, apca: lc } = result.suggestion;
+  return `${line}\n         ${chalk.yellow('fix')} ${path} → ${color} (${ratio.toFixed(2)}:1, Lc ${lc.toFixed(1)})`;
+};
+
+/**
+ * @function registerAuditCommand
+ * @description Registers `glacierui audit`; exits with code 1 when any pair fails
+ * @param {Command} program - Root program
+ */
+export function registerAuditCommand(program: Command): void {
+  addThemeOptions(
+    program
+      .command('audit')
+      .description('check the contrast of every foreground/background pair in a theme')
+  )
+    .addOption(new Option('-l, --level <level>', 'WCAG level to check').choices(['AA', 'AAA']).default('AA'))
+    .option('--apca', 'also require the APCA minimums to pass', false)
+    .option('--json', 'print the report as JSON', false)
+    .action((options: AuditCommandOptions) => {
+      const theme = resolveTheme(options);
+      const report = auditTheme(theme, {
+        level: options.level,
+        require: options.apca ? ['wcag', 'apca'] : ['wcag'],
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        console.log(chalk.bold(`${report.theme} — WCAG ${report.level}${options.apca ? ' + APCA' : ''}\n`));
+        console.log(report.results.map(formatResult).join('\n'));
+        console.log(
+          `\n${report.results.length - report.failures.length} of ${report.results.length} pairs pass` +
+          (report.passes ? '' : chalk.red(`, ${report.failures.length} fail`))
+        );
+      }
+
+      if (!report.passes) {
+        process.exitCode = 1;
+      }
+    });
+}
@@ -0,0 +1,65 @@
+/**
+ * @module commands/css
+ * @description Writes a stylesheet of CSS custom properties for several themes
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { createThemeStylesheet, getTheme, hasTheme, listThemes } from '../core';
+
+interface CssOptions {
+  themes: string;
+  default?: string;
+  dark?: string;
+  prefix: string;
+  attribute: string;
+  palette: boolean;
+  output?: string;
+}
+
+/**
+ * @function registerCssCommand
+ * @description Registers `glacierui css`
+ * @param {Command} program - Root program
+ */
+export function registerCssCommand(program: Command): void {
+  program
+    .command('css')
+    .description('build a stylesheet with a [data-theme] rule per theme')
+    .option('--themes <names>', 'comma-separated theme names', listThemes().join(','))
+    .option('--default <name>', 'theme applied on :root (defaults to the first theme)')
+    .option('--dark <name>', 'theme applied on :root when the OS prefers dark')
+    .option('--prefix <prefix>', 'custom property prefix', 'glacier')
+    .option('--attribute <name>', 'attribute used to select a theme', 'data-theme')
+    .option('--no-palette', 'only emit the flat theme colors')
+    .option('-o, --output <file>', 'file to write to (defaults to stdout)')
+    .action(async (options: CssOptions) => {
+      const names = options.themes.split(',').map(name => name.trim()).filter(Boolean);
+      const known = names.filter(hasTheme);
+      const unknown = names.filter(name => !hasTheme(name));
+
+      if (unknown.length > 0) {
+        throw new Error(`Unknown theme: ${unknown.join(', ')} (available: ${listThemes().join(', ')})`);
+      }
+
+      const css = createThemeStylesheet(known.map(name => getTheme(name)), {
+        defaultTheme: options.default,
+        darkTheme: options.dark,
+        prefix: options.prefix,
+        attribute: options.attribute,
+        includePalette: options.palette,
+      });
+
+      if (!options.output) {
+        process.stdout.write(css);
+        return;
+      }
+
+      const outputPath = resolve(options.output);
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, css, 'utf8');
+      console.log(chalk.green(`Stylesheet written to ${outputPath}`));
+    });
+}
@@ -0,0 +1,44 @@
+/**
+ * @module commands/export
+ * @description Writes a theme to a file in one of the export formats
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import { exportTheme, exporters, type ExportFormat } from '../core';
+import { addThemeOptions, resolveTheme, type ThemeCommandOptions } from '../utils/options';
+
+interface ExportOptions extends ThemeCommandOptions {
+  output: string;
+  format: ExportFormat;
+}
+
+/**
+ * @function registerExportCommand
+ * @description Registers `glacierui export`
+ * @param {Command} program - Root program
+ */
+export function registerExportCommand(program: Command): void {
+  addThemeOptions(
+    program
+      .command('export')
+      .description('write a generated or built-in theme to a file')
+  )
+    .requiredOption('-o, --output <file>', 'file to write the theme to')
+    .addOption(
+      new Option('-f, --format <format>', 'output format')
+        .choices(Object.keys(exporters))
+        .default('json')
+    )
+    .action(async (options: ExportOptions) => {
+      const theme = resolveTheme(options);
+      const outputPath = resolve(options.output);
+
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, exportTheme(theme, options.format), 'utf8');
+
+      console.log(chalk.green(`Theme written to ${outputPath}`));
+    });
+}
@@ -0,0 +1,50 @@
+/**
+ * @module commands/generate
+ * @description Generates a theme, or loads a built-in one, and prints it to the terminal
+ */
+
+import { Command } from 'commander';
+import { ThemeGenerator } from '../core';
+import { formatTheme } from '../utils/format';
+import { addThemeOptions, resolveTheme, toThemeOptions, type ThemeCommandOptions } from '../utils/options';
+
+interface GenerateOptions extends ThemeCommandOptions {
+  json?: boolean;
+  pair?: boolean;
+}
+
+/**
+ * @function registerGenerateCommand
+ * @description Registers `glacierui generate`
+ * @param {Command} program - Root program
+ */
+export function registerGenerateCommand(program: Command): void {
+  addThemeOptions(
+    program
+      .command('generate')
+      .description('generate a theme from a base color')
+  )
+    .option('--json', 'print the theme as JSON', false)
+    .option('--pair', 'generate matching light and dark themes from --base (ignores --dark)', false)
+    .action((options: GenerateOptions) => {
+      if (options.pair) {
+        if (options.theme) {
+          throw new Error('--pair generates themes from --base and cannot be combined with --theme');
+        }
+        const pair = ThemeGenerator.generateThemePair(toThemeOptions(options));
+        console.log(options.json
+          ? JSON.stringify(pair, null, 2)
+          : `${formatTheme(pair.light)}\n\n${formatTheme(pair.dark)}`);
+        return;
+      }
+
+      const theme = resolveTheme(options);
+
+      if (options.json) {
+        console.log(JSON.stringify(theme, null, 2));
+        return;
+      }
+
+      console.log(formatTheme(theme));
+    });
+}
@@ -0,0 +1,37 @@
+/**
+ * @module commands/harmony
+ * @description Prints the colors of a harmony for a base color
+ */
+
+import { Command, Option } from 'commander';
+import { HarmonyGenerator, ThemeGenerator, type HarmonyScheme } from '../core';
+import { swatch } from '../utils/format';
+import { HARMONY_SCHEMES } from '../utils/options';
+
+interface HarmonyOptions {
+  scheme: HarmonyScheme;
+  count?: string;
+}
+
+/**
+ * @function registerHarmonyCommand
+ * @description Registers `glacierui harmony <color>`
+ * @param {Command} program - Root program
+ */
+export function registerHarmonyCommand(program: Command): void {
+  program
+    .command('harmony')
+    .description('show harmonious colors for a base color')
+    .argument('<color>', 'any CSS color, color word or color phrase')
+    .addOption(new Option('-s, --scheme <scheme>', 'harmony scheme').choices(HARMONY_SCHEMES).default('complementary'))
+    .option('-c, --count <number>', 'number of colors (defaults to the hues of the scheme)')
+    .action((input: string, options: HarmonyOptions) => {
+      const count = options.count === undefined ? undefined : Number(options.count);
+      if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+        throw new Error(`Count must be a positive integer, got ${options.count}`);
+      }
+
+      const colors = HarmonyGenerator.generate(ThemeGenerator.resolveColor(input), options.scheme, count);
+      console.log(colors.map(color => `  ${swatch(color)}`).join('\n'));
+    });
+}
@@ -0,0 +1,108 @@
+/**
+ * @module commands/import
+ * @description Builds a theme from an external design-token file
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, extname, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import {
+  importCssVariables,
+  importDtcgTokens,
+  importTailwindColors,
+  importTokensStudio,
+  type ImportResult,
+} from '../core';
+import { formatDiagnostics } from '../utils/diagnostics';
+
+type ImportFormat = 'dtcg' | 'tokens-studio' | 'tailwind' | 'css';
+
+interface ImportOptions {
+  format: ImportFormat;
+  name?: string;
+  output?: string;
+}
+
+/**
+ * Reads and parses a JSON file, naming the file when it is not valid JSON.
+ * @private
+ */
+const readJson = async (file: string): Promise<Record<string, unknown>> => {
+  const source = await readFile(resolve(file), 'utf8');
+  try {
+    return JSON.parse(source);
+  } catch (error) {
+    throw new Error(`${file} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+/**
+ * Reads a Tailwind config or colors object from a JSON or JavaScript module.
+ * @private
+ */
+const readModule = async (file: string): Promise<Record<string, unknown>> => {
+  if (extname(file) === '.json') {
+    return readJson(file);
+  }
+  const module = await import(pathToFileURL(resolve(file)).href);
+  return module.default ?? module;
+};
+
+/**
+ * @function registerImportCommand
+ * @description Registers `glacierui import <file>`
+ * @param {Command} program - Root program
+ */
+export function registerImportCommand(program: Command): void {
+  program
+    .command('import')
+    .description('build a theme from DTCG, Tokens Studio, Tailwind or CSS variable files')
+    .argument('<file>', 'token file to import')
+    .addOption(
+      new Option('-f, --format <format>', 'source format')
+        .choices(['dtcg', 'tokens-studio', 'tailwind', 'css'])
+        .makeOptionMandatory()
+    )
+    .option('--name <name>', 'name of the imported theme', 'imported')
+    .option('-o, --output <file>', 'file to write the theme JSON to (defaults to stdout)')
+    .action(async (file: string, options: ImportOptions) => {
+      const inputPath = resolve(file);
+      const importOptions = { name: options.name };
+      let result: ImportResult;
+
+      switch (options.format) {
+        case 'dtcg':
+          result = importDtcgTokens(await readJson(file), importOptions);
+          break;
+        case 'tokens-studio':
+          result = importTokensStudio(await readJson(file), importOptions);
+          break;
+        case 'tailwind':
+          result = importTailwindColors(await readModule(file), importOptions);
+          break;
+        case 'css':
+          result = importCssVariables(await readFile(inputPath, 'utf8'), importOptions);
+          break;
+      }
+
+      if (result.diagnostics.length > 0) {
+        console.error(formatDiagnostics(result.diagnostics));
+      }
+      if (!result.theme) {
+        throw new Error(`Could not import a theme from ${inputPath}`);
+      }
+
+      const json = `${JSON.stringify(result.theme, null, 2)}\n`;
+      if (!options.output) {
+        process.stdout.write(json);
+        return;
+      }
+
+      const outputPath = resolve(options.output);
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, json, 'utf8');
+      console.error(chalk.green(`Theme written to ${outputPath}`));
+    });
+}
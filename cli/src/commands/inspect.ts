@@ -0,0 +1,51 @@
+/**
+ * @module commands/inspect
+ * @description Prints the color depth and accessibility info for a single color
+ */
+
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import { ColorConverter, ColorDepthGenerator, ThemeGenerator, nameForColor, parseColorPhrase, scalePresets, type ScalePresetName, type ScaleSpec } from '../core';
+import { formatDepth, swatch } from '../utils/format';
+import { ThemeCommandOptions, toDepthOptions } from '../utils/options';
+
+type InspectOptions = Pick<ThemeCommandOptions, 'scaleMode' | 'autoAnchor'> & { scale?: ScalePresetName };
+
+/**
+ * @function registerInspectCommand
+ * @description Registers `glacierui inspect <color>`
+ * @param {Command} program - Root program
+ */
+export function registerInspectCommand(program: Command): void {
+  program
+    .command('inspect')
+    .description('show the shades and contrast information for a color')
+    .argument('<color>', 'any CSS color, color word or phrase such as "muted teal"')
+    .addOption(new Option('--scale-mode <mode>', 'shade generation mode').choices(['hsl', 'oklch']).default('hsl'))
+    .option('--auto-anchor', 'place the color at the shade its lightness fits (oklch mode only)', false)
+    .addOption(new Option('--scale <preset>', 'show a preset scale instead of the color depth (always oklch)').choices(Object.keys(scalePresets)))
+    .action((input: string, options: InspectOptions) => {
+      const hex = ThemeGenerator.resolveColor(input);
+      const spec: ScaleSpec | undefined = options.scale && scalePresets[options.scale];
+      const shades = spec
+        ? formatDepth(ColorDepthGenerator.generateScale(hex, spec, { anchor: options.autoAnchor ? 'auto' : undefined }))
+        : formatDepth(ColorDepthGenerator.generateColorDepth(hex, toDepthOptions(options)));
+      const info = ColorConverter.getAccessibilityInfo(hex);
+      const pass = (passed: boolean) => (passed ? chalk.green('pass') : chalk.red('fail'));
+
+      const phrase = parseColorPhrase(input);
+
+      console.log(`${chalk.bold(input)} ${swatch(hex)} ${chalk.dim(`≈ ${nameForColor(hex)}`)}\n`);
+      if (phrase.ok && phrase.steps.length > 1) {
+        console.log(`${chalk.dim(phrase.explanation)}\n`);
+      }
+      console.log(`${chalk.bold('shades')}\n${shades}\n`);
+      console.log(chalk.bold('accessibility'));
+      console.log(`  contrast with white ${info.contrastWithWhite.toFixed(2)}:1`);
+      console.log(`  contrast with black ${info.contrastWithBlack.toFixed(2)}:1`);
+      console.log(`  APCA on white       Lc ${ColorConverter.getApcaContrast(hex, '#FFFFFF').toFixed(1)}`);
+      console.log(`  APCA on black       Lc ${ColorConverter.getApcaContrast(hex, '#000000').toFixed(1)}`);
+      console.log(`  WCAG AA  ${pass(info.passesAA)}`);
+      console.log(`  WCAG AAA ${pass(info.passesAAA)}`);
+    });
+}
@@ -0,0 +1,56 @@
+/**
+ * @module commands/validate
+ * @description Checks a theme JSON file for missing roles, invalid colors and low contrast
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { validateTheme } from '../core';
+import { formatDiagnostics } from '../utils/diagnostics';
+
+interface ValidateOptions {
+  json?: boolean;
+  strict?: boolean;
+}
+
+/**
+ * @function registerValidateCommand
+ * @description Registers `glacierui validate <file>`; exits with code 1 when the theme has errors
+ * @param {Command} program - Root program
+ */
+export function registerValidateCommand(program: Command): void {
+  program
+    .command('validate')
+    .description('check a theme JSON file for missing roles, invalid colors and low contrast')
+    .argument('<file>', 'theme JSON file, e.g. written by `glacierui import`')
+    .option('--json', 'print the result as JSON', false)
+    .option('--strict', 'also exit with code 1 on warnings', false)
+    .action(async (file: string, options: ValidateOptions) => {
+      const source = await readFile(resolve(file), 'utf8');
+      let theme: unknown;
+      try {
+        theme = JSON.parse(source);
+      } catch (error) {
+        throw new Error(`${file} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const result = validateTheme(theme);
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        const issues = [...result.errors, ...result.warnings];
+        if (issues.length > 0) {
+          console.log(formatDiagnostics(issues));
+        }
+        const summary = `${result.errors.length} error(s), ${result.warnings.length} warning(s)`;
+        console.log(result.valid ? chalk.green(`\nValid theme — ${summary}`) : chalk.red(`\nInvalid theme — ${summary}`));
+      }
+
+      if (!result.valid || (options.strict && result.warnings.length > 0)) {
+        process.exitCode = 1;
+      }
+    });
+}
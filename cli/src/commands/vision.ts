@@ -0,0 +1,87 @@
+/**
+ * @module commands/vision
+ * @description Previews a theme under simulated color vision deficiencies
+ */
+
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import {
+  ColorConverter,
+  checkDistinguishability,
+  distinguishableRoles,
+  type ColorVisionDeficiency,
+  type DifferenceMetric,
+} from '../core';
+import { addThemeOptions, resolveTheme, type ThemeCommandOptions } from '../utils/options';
+
+interface VisionOptions extends ThemeCommandOptions {
+  severity: string;
+  metric: DifferenceMetric;
+  threshold?: string;
+  strict?: boolean;
+}
+
+const DEFICIENCIES: ColorVisionDeficiency[] = ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'];
+
+/**
+ * @function registerVisionCommand
+ * @description Registers `glacierui vision`
+ * @param {Command} program - Root program
+ */
+export function registerVisionCommand(program: Command): void {
+  addThemeOptions(
+    program
+      .command('vision')
+      .description('preview a theme under color vision deficiencies and flag roles that become hard to tell apart')
+  )
+    .option('-s, --severity <amount>', 'severity of the deficiencies from 0 to 1', '1')
+    .addOption(
+      new Option('-m, --metric <metric>', 'color difference formula')
+        .choices(['deltaE2000', 'deltaEOK'])
+        .default('deltaE2000')
+    )
+    .option('--threshold <value>', 'minimum difference between roles (default 10 for deltaE2000, 0.1 for deltaEOK)')
+    .option('--strict', 'exit with code 1 when any pair is hard to tell apart', false)
+    .action((options: VisionOptions) => {
+      const theme = resolveTheme(options);
+      const severity = Number(options.severity);
+      if (Number.isNaN(severity) || severity < 0 || severity > 1) {
+        throw new Error(`Severity must be a number from 0 to 1, got ${options.severity}`);
+      }
+
+      const roles = distinguishableRoles.map(path => ({
+        name: path.replace(/^colors\./, ''),
+        color: theme.colors[path.replace(/^colors\./, '') as keyof typeof theme.colors],
+      }));
+      const row = (label: string, transform: (color: string) => string) =>
+        `  ${label.padEnd(14)} ${roles.map(role => chalk.bgHex(transform(role.color))('    ')).join(' ')}`;
+
+      console.log(`  ${''.padEnd(14)} ${roles.map(role => role.name.slice(0, 4).padEnd(4)).join(' ')}`);
+      console.log(row('normal', color => color));
+      for (const deficiency of DEFICIENCIES) {
+        console.log(row(deficiency, color => ColorConverter.simulateColorVision(color, deficiency, severity)));
+      }
+
+      const report = checkDistinguishability(theme, {
+        metric: options.metric,
+        threshold: options.threshold === undefined ? undefined : Number(options.threshold),
+        severity,
+      });
+
+      if (report.passes) {
+        console.log(chalk.green(`\nAll roles differ by at least ${report.threshold} ${report.metric}`));
+        return;
+      }
+
+      console.log(chalk.bold(`\nHard to tell apart (${report.metric} < ${report.threshold})`));
+      for (const failure of report.failures) {
+        const [a, b] = failure.roles.map(path => path.replace(/^colors\./, ''));
+        const samples = failure.colors.map(color => chalk.bgHex(color)('  ')).join('');
+        console.log(`  ${failure.vision.padEnd(13)} ${samples} ${a} / ${b} ${failure.difference.toFixed(2)}`);
+      }
+
+      if (options.strict) {
+        process.exitCode = 1;
+      }
+    });
+}
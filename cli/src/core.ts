@@ -0,0 +1,40 @@
+/**
+ * @module core
+ * @description Core APIs used by the CLI, bundled from the core package sources
+ */
+
+export { ThemeGenerator, type ThemeOptions } from '../../core/src/generators/themeGenerator';
+export { ColorDepthGenerator, type ColorDepthOptions } from '../../core/src/generators/colorDepth';
+export { HarmonyGenerator, type HarmonyScheme } from '../../core/src/generators/harmony';
+export { type SemanticMode } from '../../core/src/generators/semantic';
+export { ColorConverter } from '../../core/src/utils/colorConverter';
+export { parseColorPhrase } from '../../core/src/utils/colorPhrase';
+export { getTheme, hasTheme, listThemes, getThemePalette, validateTheme, type Theme } from '../../core/src/themes';
+export { exportTheme, exporters, createThemeStylesheet, type ExportFormat } from '../../core/src/exporters';
+export type {
+  ThemePalette,
+  ColorDepth,
+  ColorScale,
+  ColorVisionDeficiency,
+  ScaleSpec,
+  ScaleStep,
+  SemanticColor,
+} from '../../core/src/types/color';
+export { scalePresets, type ScalePresetName } from '../../core/src/constants/scales';
+export { nameForColor } from '../../core/src/constants/colorWords';
+export {
+  importCssVariables,
+  importDtcgTokens,
+  importTailwindColors,
+  importTokensStudio,
+  type ImportResult,
+} from '../../core/src/importers';
+export {
+  auditTheme,
+  checkDistinguishability,
+  distinguishableRoles,
+  type AuditLevel,
+  type AuditPairResult,
+  type AuditReport,
+  type DifferenceMetric,
+} from '../../core/src/audit';
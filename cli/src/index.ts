@@ -0,0 +1,36 @@
+#!/usr/bin/env node
+/**
+ * @module cli
+ * @description Entry point for the `glacierui` command line interface
+ */
+
+import { Command } from 'commander';
+import { registerGenerateCommand } from './commands/generate';
+import { registerInspectCommand } from './commands/inspect';
+import { registerHarmonyCommand } from './commands/harmony';
+import { registerExportCommand } from './commands/export';
+import { registerCssCommand } from './commands/css';
+import { registerImportCommand } from './commands/import';
+import { registerAuditCommand } from './commands/audit';
+import { registerVisionCommand } from './commands/vision';
+import { registerValidateCommand } from './commands/validate';
+import { handleCommandError } from './utils/errors';
+
+const program = new Command();
+
+program
+  .name('glacierui')
+  .description('Generate and inspect glacierui color themes')
+  .version('0.1.0');
+
+registerGenerateCommand(program);
+registerInspectCommand(program);
+registerHarmonyCommand(program);
+registerExportCommand(program);
+registerCssCommand(program);
+registerImportCommand(program);
+registerAuditCommand(program);
+registerVisionCommand(program);
+registerValidateCommand(program);
+
+program.parseAsync(process.argv).catch(handleCommandError);
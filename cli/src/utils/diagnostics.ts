@@ -0,0 +1,34 @@
+/**
+ * @module utils/diagnostics
+ * @description Terminal rendering of path-addressed diagnostics
+ */
+
+import chalk from 'chalk';
+
+/**
+ * @interface Diagnostic
+ * @description Shape shared by import and validation diagnostics
+ */
+export interface Diagnostic {
+  level: 'error' | 'warning' | 'info';
+  path: string;
+  message: string;
+}
+
+const LEVEL_COLORS = {
+  error: chalk.red,
+  warning: chalk.yellow,
+  info: chalk.gray,
+};
+
+/**
+ * @function formatDiagnostics
+ * @description Renders diagnostics one per line, prefixed with their level
+ * @param {Diagnostic[]} diagnostics - Diagnostics to render
+ * @returns {string} Formatted lines
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]): string {
+  return diagnostics
+    .map(({ level, path, message }) => `${LEVEL_COLORS[level](level.padEnd(7))} ${chalk.bold(path)} ${message}`)
+    .join('\n');
+}
@@ -0,0 +1,17 @@
+/**
+ * @module utils/errors
+ * @description Error reporting for CLI commands
+ */
+
+import chalk from 'chalk';
+
+/**
+ * @function handleCommandError
+ * @description Prints a readable error message and exits with a non-zero code
+ * @param {unknown} error - Error thrown by a command
+ */
+export function handleCommandError(error: unknown): never {
+  const message = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(`Error: ${message}`));
+  process.exit(1);
+}
@@ -0,0 +1,68 @@
+/**
+ * @module utils/format
+ * @description Terminal rendering of colors and themes
+ */
+
+import chalk from 'chalk';
+import { getThemePalette, type ColorScale, type ScaleStep, type SemanticColor, type Theme } from '../core';
+
+/**
+ * @function swatch
+ * @description Renders a truecolor block for a hex color
+ * @param {string} hex - Hex color string
+ * @returns {string} Colored block followed by the hex value
+ */
+export function swatch(hex: string): string {
+  return `${chalk.bgHex(hex)('      ')} ${hex.toUpperCase()}`;
+}
+
+/**
+ * @function formatDepth
+ * @description Renders every shade of a color depth or scale, one per line
+ * @param {ColorScale} depth - Color depth or scale to render
+ * @returns {string} Formatted lines
+ */
+export function formatDepth<Step extends ScaleStep>(depth: ColorScale<Step>): string {
+  return Object.entries<string>(depth)
+    .map(([step, hex]) => `  ${step.padStart(3)} ${swatch(hex)}`)
+    .join('\n');
+}
+
+/**
+ * @function formatSemantic
+ * @description Renders the variations of a semantic color on a single line
+ * @param {string} label - Semantic role name
+ * @param {SemanticColor} color - Semantic color variations
+ * @returns {string} Formatted line
+ */
+export function formatSemantic(label: string, color: SemanticColor): string {
+  const sample = chalk.bgHex(color.base).hex(color.text)(` ${label} `);
+  return `  ${label.padEnd(8)} ${sample} base ${color.base} light ${color.light} dark ${color.dark} bg ${color.bg}`;
+}
+
+/**
+ * @function formatTheme
+ * @description Renders the palette of a theme as labelled swatches
+ * @param {Theme} theme - Runtime theme
+ * @returns {string} Formatted output
+ */
+export function formatTheme(theme: Theme): string {
+  const palette = getThemePalette(theme);
+  const sections = [
+    `${chalk.bold('primary')}\n${formatDepth(palette.primary)}`,
+    ...(palette.secondary ? [`${chalk.bold('secondary')}\n${formatDepth(palette.secondary)}`] : []),
+    `${chalk.bold('accent')}\n${formatDepth(palette.accent)}`,
+    `${chalk.bold('neutral')}\n${formatDepth(palette.neutral)}`,
+    `${chalk.bold('semantic')}\n${Object.entries(palette.semantic)
+      .map(([role, color]) => formatSemantic(role, color))
+      .join('\n')}`,
+    `${chalk.bold('background')}\n${Object.entries(palette.background)
+      .map(([role, hex]) => `  ${role.padEnd(9)} ${swatch(hex)}`)
+      .join('\n')}`,
+    `${chalk.bold('text')}\n${Object.entries(palette.text)
+      .map(([role, hex]) => `  ${role.padEnd(9)} ${swatch(hex)}`)
+      .join('\n')}`,
+  ];
+
+  return sections.join('\n\n');
+}
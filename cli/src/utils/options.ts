@@ -0,0 +1,143 @@
+/**
+ * @module utils/options
+ * @description Shared command options for theme generation
+ */
+
+import { Command, Option } from 'commander';
+import {
+  ThemeGenerator,
+  getTheme,
+  hasTheme,
+  listThemes,
+  type ColorDepthOptions,
+  type HarmonyScheme,
+  type SemanticMode,
+  type Theme,
+  type ThemeOptions,
+} from '../core';
+
+/**
+ * @constant HARMONY_SCHEMES
+ * @description Harmony schemes accepted by --harmony
+ */
+export const HARMONY_SCHEMES: HarmonyScheme[] = [
+  'complementary',
+  'split-complementary',
+  'analogous',
+  'triadic',
+  'tetradic',
+  'monochromatic',
+];
+
+/**
+ * @interface ThemeCommandOptions
+ * @description Raw theme options as parsed by commander
+ */
+export interface ThemeCommandOptions {
+  theme?: string;
+  name?: string;
+  base?: string;
+  secondary?: string;
+  accent?: string;
+  neutral?: string;
+  harmony?: HarmonyScheme;
+  semanticMode?: SemanticMode;
+  success?: string;
+  warning?: string;
+  error?: string;
+  info?: string;
+  dark?: boolean;
+  scaleMode?: 'hsl' | 'oklch';
+  autoAnchor?: boolean;
+}
+
+/**
+ * @function addThemeOptions
+ * @description Adds the theme selection and generation options to a command
+ * @param {Command} command - Command to extend
+ * @returns {Command} The same command, for chaining
+ */
+export function addThemeOptions(command: Command): Command {
+  return command
+    .option('-t, --theme <name>', `built-in theme to use instead of generating one (${listThemes().join(', ')})`)
+    .option('-b, --base <color>', 'base color as any CSS color, color word or phrase such as "muted teal"')
+    .option('--secondary <color>', 'secondary color (defaults to the harmony, or a darker shade of base)')
+    .option('-a, --accent <color>', 'accent color (defaults to the harmony, or the complement of base)')
+    .addOption(new Option('-H, --harmony <scheme>', 'color harmony for the secondary and accent colors').choices(HARMONY_SCHEMES))
+    .option('-n, --neutral <color>', 'neutral color', '#808080')
+    .option('-d, --dark', 'generate a dark theme', false)
+    .addOption(
+      new Option('--semantic-mode <mode>', 'fixed state colors, or states tinted toward the base color')
+        .choices(['standard', 'harmonized'])
+        .default('standard')
+    )
+    .option('--success <color>', 'success state color')
+    .option('--warning <color>', 'warning state color')
+    .option('--error <color>', 'error state color')
+    .option('--info <color>', 'info state color')
+    .option('--name <name>', 'name of the generated theme')
+    .addOption(new Option('--scale-mode <mode>', 'shade generation mode').choices(['hsl', 'oklch']).default('hsl'))
+    .option('--auto-anchor', 'place the base color at the shade its lightness fits (oklch mode only)', false);
+}
+
+/**
+ * @function toThemeOptions
+ * @description Maps parsed command options onto generator options
+ * @param {ThemeCommandOptions} options - Parsed command options
+ * @returns {ThemeOptions} Options for ThemeGenerator.generateTheme
+ * @throws If no base color was given
+ */
+export function toThemeOptions(options: ThemeCommandOptions): ThemeOptions {
+  if (!options.base) {
+    throw new Error('Either --base <color> or --theme <name> is required');
+  }
+
+  return {
+    name: options.name,
+    baseColor: options.base,
+    secondaryColor: options.secondary,
+    accentColor: options.accent,
+    neutralColor: options.neutral,
+    isDark: Boolean(options.dark),
+    harmony: options.harmony,
+    semanticMode: options.semanticMode,
+    semantic: {
+      success: options.success,
+      warning: options.warning,
+      error: options.error,
+      info: options.info,
+    },
+    depth: toDepthOptions(options),
+  };
+}
+
+/**
+ * @function toDepthOptions
+ * @description Maps parsed command options onto shade generation options
+ * @param {ThemeCommandOptions} options - Parsed command options
+ * @returns {ColorDepthOptions} Options for ColorDepthGenerator.generateColorDepth
+ */
+export function toDepthOptions(options: Pick<ThemeCommandOptions, 'scaleMode' | 'autoAnchor'>): ColorDepthOptions {
+  return {
+    mode: options.scaleMode,
+    anchor: options.autoAnchor ? 'auto' : 'fixed',
+  };
+}
+
+/**
+ * @function resolveTheme
+ * @description Returns the built-in theme named by --theme, or generates one from the color options
+ * @param {ThemeCommandOptions} options - Parsed command options
+ * @returns {Theme} Runtime theme
+ * @throws If the theme name is unknown or no base color was given
+ */
+export function resolveTheme(options: ThemeCommandOptions): Theme {
+  if (options.theme) {
+    if (!hasTheme(options.theme)) {
+      throw new Error(`Unknown theme: ${options.theme} (available: ${listThemes().join(', ')})`);
+    }
+    return getTheme(options.theme);
+  }
+
+  return ThemeGenerator.generateTheme(toThemeOptions(options));
+}
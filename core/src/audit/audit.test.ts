@@ -0,0 +1,23 @@
+import { describe, expect, test } from 'bun:test';
+import { auditTheme } from './index';
+import { extendTheme, getTheme } from '../themes';
+
+describe('auditTheme', () => {
+  test('fails only warningContent on warning in the accessible theme', () => {
+    const report = auditTheme(getTheme('accessible'));
+    expect(report.failures.map(({ foreground, background }) => [foreground, background])).toEqual([
+      ['colors.warningContent', 'colors.warning'],
+    ]);
+    expect(report.failures[0].suggestion).toMatchObject({ path: 'colors.warningContent' });
+    expect(report.failures[0].suggestion!.wcag).toBeGreaterThanOrEqual(4.5);
+  });
+
+  test('suggests a background when no foreground of that hue passes', () => {
+    const theme = extendTheme(getTheme('nord'), { colors: { primary: '#777777', primaryContent: '#FFFFFF' } });
+    const failure = auditTheme(theme, { level: 'AAA' }).failures.find(
+      ({ foreground, background }) => foreground === 'colors.primaryContent' && background === 'colors.primary'
+    );
+    expect(failure?.suggestion).toMatchObject({ path: 'colors.primary' });
+    expect(failure!.suggestion!.wcag).toBeGreaterThanOrEqual(7);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @module audit/distinguishability
+ * @description Checks that the roles carrying meaning stay distinct under color vision deficiencies
+ */
+
+import { Theme } from '../themes/types';
+import { ColorVisionDeficiency } from '../types/color';
+import { ColorConverter } from '../utils/colorConverter';
+import {
+  DifferenceMetric,
+  DistinguishabilityOptions,
+  DistinguishabilityReport,
+  DistinguishabilityResult,
+} from './types';
+import { readPath } from './paths';
+
+const DEFICIENCIES: ColorVisionDeficiency[] = ['protanopia', 'deuteranopia', 'tritanopia', 'achromatopsia'];
+
+const DEFAULT_THRESHOLDS: Record<DifferenceMetric, number> = {
+  deltaE2000: 10,
+  deltaEOK: 0.1,
+};
+
+/**
+ * @constant distinguishableRoles
+ * @description Roles compared by default: the accent roles and the semantic states
+ */
+export const distinguishableRoles = [
+  'colors.primary',
+  'colors.secondary',
+  'colors.accent',
+  'colors.info',
+  'colors.success',
+  'colors.warning',
+  'colors.error',
+];
+
+/**
+ * @function checkDistinguishability
+ * @description Compares every pair of roles with normal vision and under each simulated
+ * deficiency, flagging pairs whose perceptual difference falls below the threshold
+ * @param {Theme} theme - Theme to check
+ * @param {DistinguishabilityOptions} [options] - Metric, threshold, deficiencies and roles
+ * @returns {DistinguishabilityReport} Results for every pair and vision
+ */
+export function checkDistinguishability(
+  theme: Theme,
+  options: DistinguishabilityOptions = {}
+): DistinguishabilityReport {
+  const metric = options.metric ?? 'deltaE2000';
+  const threshold = options.threshold ?? DEFAULT_THRESHOLDS[metric];
+  const severity = options.severity ?? 1;
+  const visions: (ColorVisionDeficiency | 'normal')[] = ['normal', ...(options.deficiencies ?? DEFICIENCIES)];
+
+  const roles = (options.roles ?? distinguishableRoles)
+    .map(path => ({ path, color: readPath(theme, path) }))
+    .filter((role): role is { path: string; color: string } => role.color !== undefined);
+
+  const results: DistinguishabilityResult[] = [];
+  for (const vision of visions) {
+    const seen = (color: string) =>
+      vision === 'normal' ? ColorConverter.toHex(color) : ColorConverter.simulateColorVision(color, vision, severity);
+
+    roles.forEach((a, i) => {
+      for (const b of roles.slice(i + 1)) {
+        // Roles that deliberately share a color, such as info and primary, are not meant to differ
+        if (ColorConverter.toHex(a.color).toLowerCase() === ColorConverter.toHex(b.color).toLowerCase()) continue;
+
+        const colors: [string, string] = [seen(a.color), seen(b.color)];
+        const difference = ColorConverter[metric](colors[0], colors[1]);
+        results.push({
+          roles: [a.path, b.path],
+          vision,
+          colors,
+          difference,
+          passes: difference >= threshold,
+        });
+      }
+    });
+  }
+
+  const failures = results.filter(result => !result.passes);
+  return {
+    theme: theme.name,
+    metric,
+    threshold,
+    results,
+    failures,
+    passes: failures.length === 0,
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * @module audit
+ * @description Accessibility audit of the foreground/background role pairs in a theme
+ */
+
+import { Theme } from '../themes/types';
+import { ContrastSolver } from '../generators/contrastSolver';
+import { ColorConverter } from '../utils/colorConverter';
+import {
+  AuditLevel,
+  AuditOptions,
+  AuditPairResult,
+  AuditReport,
+  AuditSuggestion,
+  PairUsage,
+  RolePair,
+} from './types';
+import { readPath } from './paths';
+
+export * from './types';
+export { checkDistinguishability, distinguishableRoles } from './distinguishability';
+
+/** Minimum WCAG 2.1 ratio and APCA Lc per usage and level */
+const MINIMUMS: Record<PairUsage, Record<AuditLevel, { wcag: number; apca: number }>> = {
+  text: { AA: { wcag: 4.5, apca: 60 }, AAA: { wcag: 7, apca: 75 } },
+  ui: { AA: { wcag: 3, apca: 45 }, AAA: { wcag: 4.5, apca: 60 } },
+};
+
+const CONTENT_ROLES = ['primary', 'secondary', 'accent', 'neutral', 'info', 'success', 'warning', 'error'];
+const BASE_ROLES = ['base100', 'base200', 'base300'];
+const SURFACES = ['default', 'paper', 'elevated'];
+
+/**
+ * @constant colorPairs
+ * @description Role pairs of the flat theme colors
+ */
+export const colorPairs: RolePair[] = [
+  ...BASE_ROLES.map(base => ({ foreground: 'colors.baseContent', background: `colors.${base}`, usage: 'text' as const })),
+  ...CONTENT_ROLES.map(role => ({ foreground: `colors.${role}Content`, background: `colors.${role}`, usage: 'text' as const })),
+  ...CONTENT_ROLES.map(role => ({ foreground: `colors.${role}`, background: 'colors.base100', usage: 'ui' as const })),
+];
+
+/**
+ * @constant palettePairs
+ * @description Role pairs of the text and background colors in a palette
+ */
+export const palettePairs: RolePair[] = [
+  ...SURFACES.map(surface => ({
+    foreground: 'palette.text.primary',
+    background: `palette.background.${surface}`,
+    usage: 'text' as const,
+  })),
+  ...SURFACES.map(surface => ({
+    foreground: 'palette.text.secondary',
+    background: `palette.background.${surface}`,
+    usage: 'text' as const,
+  })),
+  ...['info', 'success', 'warning', 'error'].map(role => ({
+    foreground: `palette.semantic.${role}.dark`,
+    background: `palette.semantic.${role}.bg`,
+    usage: 'text' as const,
+  })),
+];
+
+/**
+ * Finds a foreground with the hue of the current one that meets every required minimum,
+ * or a new background when no foreground of that hue can.
+ * @private
+ */
+const suggestFix = (
+  pair: RolePair,
+  foreground: string,
+  background: string,
+  minimum: { wcag: number; apca: number },
+  required: ('wcag' | 'apca')[]
+): AuditSuggestion => {
+  const targets = required.map(algorithm =>
+    algorithm === 'wcag' ? { wcag: minimum.wcag } : { apca: minimum.apca }
+  );
+  const meetsAll = (text: string, surface: string) => required.every(algorithm =>
+    algorithm === 'wcag'
+      ? ColorConverter.getContrastRatio(text, surface) >= minimum.wcag
+      : Math.abs(ColorConverter.getApcaContrast(text, surface)) >= minimum.apca
+  );
+  const adjust = (color: string, against: string) =>
+    targets.reduce((current, target) => ContrastSolver.solve(against, { color: current, target }).color, color);
+
+  let path = pair.foreground;
+  let text = adjust(foreground, background);
+  let surface = background;
+  if (!meetsAll(text, surface)) {
+    // APCA is not symmetric, so the adjusted background is re-measured with the original text on top
+    path = pair.background;
+    text = foreground;
+    surface = adjust(background, foreground);
+  }
+
+  return {
+    path,
+    color: path === pair.foreground ? text : surface,
+    wcag: ColorConverter.getContrastRatio(text, surface),
+    apca: ColorConverter.getApcaContrast(text, surface),
+  };
+};
+
+/**
+ * @function auditPair
+ * @description Checks one role pair of a theme against WCAG 2.1 and APCA minimums
+ * @param {Theme} theme - Theme to audit
+ * @param {RolePair} pair - Foreground and background paths
+ * @param {AuditOptions} [options] - Level and required algorithms
+ * @returns {AuditPairResult | null} Result, or null if the theme lacks either color
+ */
+export function auditPair(
+  theme: Theme,
+  pair: RolePair,
+  { level = 'AA', require = ['wcag'] }: AuditOptions = {}
+): AuditPairResult | null {
+  const foreground = readPath(theme, pair.foreground);
+  const background = readPath(theme, pair.background);
+  if (!foreground || !background) return null;
+
+  const minimum = MINIMUMS[pair.usage][level];
+  const ratio = ColorConverter.getContrastRatio(foreground, background);
+  const lc = ColorConverter.getApcaContrast(foreground, background);
+  const wcag = { value: ratio, required: minimum.wcag, passes: ratio >= minimum.wcag };
+  const apca = { value: lc, required: minimum.apca, passes: Math.abs(lc) >= minimum.apca };
+  const passes = require.every(algorithm => (algorithm === 'wcag' ? wcag : apca).passes);
+
+  return {
+    ...pair,
+    foregroundColor: foreground,
+    backgroundColor: background,
+    wcag,
+    apca,
+    passes,
+    ...(passes ? {} : { suggestion: suggestFix(pair, foreground, background, minimum, require) }),
+  };
+}
+
+/**
+ * @function auditTheme
+ * @description Checks every foreground/background role pair of a theme; palette pairs are
+ * only checked on themes that carry a palette, since derived palettes are not shipped as-is
+ * @param {Theme} theme - Theme to audit
+ * @param {AuditOptions} [options] - Level and required algorithms
+ * @returns {AuditReport} Results for every pair, with failing pairs and suggested fixes
+ */
+export function auditTheme(theme: Theme, options: AuditOptions = {}): AuditReport {
+  const pairs = theme.palette ? [...colorPairs, ...palettePairs] : colorPairs;
+  const results = pairs
+    .map(pair => auditPair(theme, pair, options))
+    .filter((result): result is AuditPairResult => result !== null);
+  const failures = results.filter(result => !result.passes);
+
+  return {
+    theme: theme.name,
+    level: options.level ?? 'AA',
+    required: options.require ?? ['wcag'],
+    results,
+    failures,
+    passes: failures.length === 0,
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * @module audit/paths
+ * @description Dot-path access to theme colors
+ */
+
+import { Theme } from '../themes/types';
+
+/**
+ * @function readPath
+ * @description Reads a color from a theme by dot path, e.g. `colors.primary` or `palette.text.secondary`
+ * @param {Theme} theme - Theme to read from
+ * @param {string} path - Dot path
+ * @returns {string | undefined} Color, or undefined if the path does not lead to a string
+ */
+export function readPath(theme: Theme, path: string): string | undefined {
+  const value = path.split('.').reduce<unknown>(
+    (node, key) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined),
+    theme
+  );
+  return typeof value === 'string' ? value : undefined;
+}
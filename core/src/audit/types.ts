@@ -0,0 +1,148 @@
+/**
+ * @module audit/types
+ * @description Types of the theme accessibility audit
+ */
+
+import { ColorVisionDeficiency } from '../types/color';
+
+/**
+ * @type AuditLevel
+ * @description WCAG conformance level the audit checks against
+ */
+export type AuditLevel = 'AA' | 'AAA';
+
+/**
+ * @type PairUsage
+ * @description How a foreground is used on its background, which sets the contrast it needs:
+ * `text` for body text, `ui` for components and large text that must stand out from the page
+ */
+export type PairUsage = 'text' | 'ui';
+
+/**
+ * @interface RolePair
+ * @description A foreground role shown on a background role
+ */
+export interface RolePair {
+  /** Theme path of the foreground, e.g. `colors.primaryContent` */
+  foreground: string;
+  /** Theme path of the background, e.g. `colors.primary` */
+  background: string;
+  usage: PairUsage;
+}
+
+/**
+ * @interface ContrastCheck
+ * @description Contrast of a pair in one algorithm, against the minimum for the audit level
+ */
+export interface ContrastCheck {
+  /** WCAG ratio, or APCA Lc (negative for light text on a dark background) */
+  value: number;
+  /** Minimum required; for APCA, the minimum absolute Lc */
+  required: number;
+  passes: boolean;
+}
+
+/**
+ * @interface AuditSuggestion
+ * @description Replacement color that makes a failing pair pass: for the foreground, or for the
+ * background when no foreground of the same hue reaches the minimum
+ */
+export interface AuditSuggestion {
+  /** Theme path to change, the foreground or the background of the pair */
+  path: string;
+  /** Hex color with the same hue as the current color at `path` */
+  color: string;
+  wcag: number;
+  apca: number;
+}
+
+/**
+ * @interface AuditPairResult
+ * @description Audit outcome for a single role pair
+ */
+export interface AuditPairResult extends RolePair {
+  foregroundColor: string;
+  backgroundColor: string;
+  wcag: ContrastCheck;
+  apca: ContrastCheck;
+  /** Whether every required algorithm passes */
+  passes: boolean;
+  /** Present on failing pairs */
+  suggestion?: AuditSuggestion;
+}
+
+/**
+ * @interface AuditReport
+ * @description Accessibility audit of every foreground/background pair in a theme
+ */
+export interface AuditReport {
+  theme: string;
+  level: AuditLevel;
+  /** Algorithms that must pass for a pair to pass */
+  required: ('wcag' | 'apca')[];
+  results: AuditPairResult[];
+  failures: AuditPairResult[];
+  passes: boolean;
+}
+
+/**
+ * @interface AuditOptions
+ * @description Options for auditTheme
+ */
+export interface AuditOptions {
+  /** Defaults to AA */
+  level?: AuditLevel;
+  /** Algorithms that must pass, defaults to WCAG only; APCA results are always reported */
+  require?: ('wcag' | 'apca')[];
+}
+
+/**
+ * @type DifferenceMetric
+ * @description Perceptual difference formula used by the distinguishability check
+ */
+export type DifferenceMetric = 'deltaE2000' | 'deltaEOK';
+
+/**
+ * @interface DistinguishabilityResult
+ * @description Difference between two roles as seen with one color vision deficiency
+ */
+export interface DistinguishabilityResult {
+  /** Theme paths of the two roles */
+  roles: [string, string];
+  /** Deficiency simulated, or `normal` for unaltered vision */
+  vision: ColorVisionDeficiency | 'normal';
+  /** The two colors as they appear with that vision */
+  colors: [string, string];
+  difference: number;
+  passes: boolean;
+}
+
+/**
+ * @interface DistinguishabilityReport
+ * @description Whether the meaningful roles of a theme can be told apart under each simulation
+ */
+export interface DistinguishabilityReport {
+  theme: string;
+  metric: DifferenceMetric;
+  threshold: number;
+  results: DistinguishabilityResult[];
+  failures: DistinguishabilityResult[];
+  passes: boolean;
+}
+
+/**
+ * @interface DistinguishabilityOptions
+ * @description Options for checkDistinguishability
+ */
+export interface DistinguishabilityOptions {
+  /** Defaults to deltaE2000 */
+  metric?: DifferenceMetric;
+  /** Minimum difference, defaults to 10 for ΔE2000 and 0.1 for ΔEOK */
+  threshold?: number;
+  /** Deficiencies to simulate, defaults to all four */
+  deficiencies?: ColorVisionDeficiency[];
+  /** Severity of the simulated deficiencies from 0 to 1, defaults to 1 */
+  severity?: number;
+  /** Theme paths of the roles to compare pairwise, defaults to the accent and semantic roles */
+  roles?: string[];
+}
@@ -1,88 +1,235 @@
 /**
  * @module constants/colorWords
- * @description Color word mappings and relationships
- * @version 0.2.0
+ * @description Color word mappings, named color sets and fuzzy color name lookup
+ * @version 0.3.0
  */
 
+import { ColorConverter } from '../utils/colorConverter';
+import { cssNamedColors } from './cssColors';
+import { materialColorNames, nordColorNames } from './colorNames';
+
 /**
  * @interface ColorWord
  * @description Represents a named color with metadata
  */
 interface ColorWord {
-    hex: string;
-    category: 'primary' | 'neutral' | 'accent' | 'semantic';
-    variants?: string[];
-  }
-  
+  hex: string;
+  category: 'primary' | 'neutral' | 'accent' | 'semantic';
+  /** Related color names mapped to their own hex values */
+  variants?: Record<string, string>;
+}
+
+/**
+ * @constant colorWords
+ * @description Mapping of color names to their hex values and metadata. Names that are also
+ * CSS named colors carry the CSS value.
+ */
+export const colorWords: Record<string, ColorWord> = {
+  // Primary Colors
+  red: {
+    hex: '#FF0000',
+    category: 'primary',
+    variants: { crimson: '#DC143C', scarlet: '#FF2400', ruby: '#E0115F' },
+  },
+  blue: {
+    hex: '#0000FF',
+    category: 'primary',
+    variants: { cobalt: '#0047AB', sapphire: '#0F52BA', navy: '#000080' },
+  },
+  green: {
+    hex: '#008000',
+    category: 'primary',
+    variants: { emerald: '#50C878', forest: '#228B22', lime: '#00FF00' },
+  },
+  yellow: {
+    hex: '#FFFF00',
+    category: 'primary',
+    variants: { gold: '#FFD700', mustard: '#FFDB58', lemon: '#FFF44F' },
+  },
+
+  // Neutral Colors
+  gray: {
+    hex: '#808080',
+    category: 'neutral',
+    variants: { silver: '#C0C0C0', slate: '#708090', charcoal: '#36454F' },
+  },
+  white: {
+    hex: '#FFFFFF',
+    category: 'neutral',
+    variants: { ivory: '#FFFFF0', snow: '#FFFAFA', cream: '#FFFDD0' },
+  },
+  black: {
+    hex: '#000000',
+    category: 'neutral',
+    variants: { onyx: '#353839', jet: '#343434', ebony: '#555D50' },
+  },
+  brown: {
+    hex: '#A52A2A',
+    category: 'neutral',
+    variants: { chocolate: '#D2691E', tan: '#D2B48C', rust: '#B7410E' },
+  },
+
+  // Accent Colors
+  purple: {
+    hex: '#800080',
+    category: 'accent',
+    variants: { violet: '#EE82EE', lavender: '#E6E6FA', plum: '#DDA0DD' },
+  },
+  orange: {
+    hex: '#FFA500',
+    category: 'accent',
+    variants: { coral: '#FF7F50', peach: '#FFE5B4', amber: '#FFBF00' },
+  },
+  pink: {
+    hex: '#FFC0CB',
+    category: 'accent',
+    variants: { rose: '#FF007F', blush: '#DE5D83', salmon: '#FA8072' },
+  },
+  teal: {
+    hex: '#008080',
+    category: 'accent',
+    variants: { turquoise: '#40E0D0', aqua: '#00FFFF', mint: '#3EB489' },
+  },
+};
+
+/**
+ * @type ColorNameSet
+ * @description Built-in color name sets: the color words and their variants, the CSS named
+ * colors, the Nord palette and the Material Design palette
+ */
+export type ColorNameSet = 'words' | 'css' | 'nord' | 'material';
+
+/**
+ * @constant colorNameSets
+ * @description Every built-in color name set, mapping names to hex values
+ */
+export const colorNameSets: Record<ColorNameSet, Record<string, string>> = {
+  words: Object.fromEntries(
+    Object.entries(colorWords).flatMap(([name, word]) => [[name, word.hex], ...Object.entries(word.variants ?? {})])
+  ),
+  css: cssNamedColors,
+  nord: nordColorNames,
+  material: materialColorNames,
+};
+
+/**
+ * @interface ColorNameOptions
+ * @description Options for findColorByWord and nameForColor
+ */
+export interface ColorNameOptions {
   /**
-   * @constant colorWords
-   * @description Mapping of color names to their hex values and metadata
+   * Name sets to search, earlier sets winning ties; custom name-to-hex maps are accepted.
+   * Defaults to the color words and the CSS named colors.
    */
-  export const colorWords: Record<string, ColorWord> = {
-    // Primary Colors
-    red: {
-      hex: '#FF0000',
-      category: 'primary',
-      variants: ['crimson', 'scarlet', 'ruby'],
-    },
-    blue: {
-      hex: '#0000FF',
-      category: 'primary',
-      variants: ['azure', 'sapphire', 'navy'],
-    },
-    green: {
-      hex: '#00FF00',
-      category: 'primary',
-      variants: ['emerald', 'forest', 'lime'],
-    },
-    
-    // Neutral Colors
-    gray: {
-      hex: '#808080',
-      category: 'neutral',
-      variants: ['silver', 'slate', 'charcoal'],
-    },
-    white: {
-      hex: '#FFFFFF',
-      category: 'neutral',
-    },
-    black: {
-      hex: '#000000',
-      category: 'neutral',
-    },
-    
-    // Accent Colors
-    purple: {
-      hex: '#800080',
-      category: 'accent',
-      variants: ['violet', 'lavender', 'plum'],
-    },
-    orange: {
-      hex: '#FFA500',
-      category: 'accent',
-      variants: ['coral', 'peach', 'amber'],
-    },
-    // Add more colors as needed...
-  };
-  
+  sets?: (ColorNameSet | Record<string, string>)[];
+}
+
+/**
+ * @interface ColorWordOptions
+ * @description Options for findColorByWord
+ */
+export interface ColorWordOptions extends ColorNameOptions {
   /**
-   * @function findColorByWord
-   * @description Finds a color hex value from a word or its variants
+   * Most typos to forgive, defaults to one per four letters (up to 3); 0 disables fuzzy matching
    */
-  export function findColorByWord(word: string): string | null {
-    const normalizedWord = word.toLowerCase().trim();
-    
-    // Direct match
-    if (colorWords[normalizedWord]) {
-      return colorWords[normalizedWord].hex;
-    }
-    
-    // Check variants
-    for (const [color, data] of Object.entries(colorWords)) {
-      if (data.variants?.includes(normalizedWord)) {
-        return data.hex;
+  maxDistance?: number;
+}
+
+const DEFAULT_SETS: ColorNameSet[] = ['words', 'css'];
+
+/** Words made of letters and digits, separated by spaces, hyphens or underscores */
+const WORD_PATTERN = /^[a-z0-9]+(?:[\s_-]+[a-z0-9]+)*$/;
+
+/**
+ * Lowercases a name and drops separators, so "Dark Slate-Blue" matches "darkslateblue".
+ * @private
+ */
+const normalize = (name: string): string => name.toLowerCase().replace(/[\s_-]+/g, '');
+
+/**
+ * Flattens the requested sets into name/hex entries in priority order.
+ * @private
+ */
+const entriesOf = (sets: (ColorNameSet | Record<string, string>)[]): [string, string][] =>
+  sets.flatMap(set => Object.entries(typeof set === 'string' ? colorNameSets[set] : set));
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of adjacent letters.
+ * @private
+ */
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
       }
     }
-    
+  }
+  return rows[a.length][b.length];
+};
+
+/**
+ * @function findColorByWord
+ * @description Finds a color hex value from a color name. Names match regardless of case and
+ * separators ("dark slate blue", "DarkSlateBlue"); when no name matches exactly, the closest
+ * name within the allowed number of typos wins.
+ * @param {string} word - Color name
+ * @param {ColorWordOptions} [options] - Name sets and typo tolerance
+ * @returns {string | null} Hex color, or null if no name is close enough
+ */
+export function findColorByWord(word: string, options: ColorWordOptions = {}): string | null {
+  const trimmed = word.toLowerCase().trim();
+  if (!WORD_PATTERN.test(trimmed)) {
     return null;
-  }
\ No newline at end of file
+  }
+
+  const query = normalize(trimmed);
+  const entries = entriesOf(options.sets ?? DEFAULT_SETS);
+
+  // Direct match
+  const exact = entries.find(([name]) => normalize(name) === query);
+  if (exact) {
+    return exact[1];
+  }
+
+  // Closest name within the typo budget, earlier entries winning ties
+  const maxDistance = options.maxDistance ?? Math.min(3, Math.floor(query.length / 4));
+  let best: { hex: string; distance: number } | null = null;
+  for (const [name, hex] of entries) {
+    const distance = editDistance(query, normalize(name));
+    if (distance <= maxDistance && (!best || distance < best.distance)) {
+      best = { hex, distance };
+    }
+  }
+
+  return best?.hex ?? null;
+}
+
+/**
+ * @function nameForColor
+ * @description Finds the named color perceptually closest to a color, by ΔE2000
+ * @param {string} color - Hex color or any CSS color
+ * @param {ColorNameOptions} [options] - Name sets to search
+ * @returns {string} Name of the closest color
+ * @throws If the sets contain no names
+ */
+export function nameForColor(color: string, options: ColorNameOptions = {}): string {
+  let best: { name: string; difference: number } | null = null;
+  for (const [name, hex] of entriesOf(options.sets ?? DEFAULT_SETS)) {
+    const difference = ColorConverter.deltaE2000(color, hex);
+    if (!best || difference < best.difference) {
+      best = { name, difference };
+    }
+  }
+
+  if (!best) {
+    throw new Error('No color names to choose from');
+  }
+  return best.name;
+}
@@ -0,0 +1,104 @@
+/**
+ * @module constants/scales
+ * @description Built-in color scale specs for ColorDepthGenerator.generateScale
+ */
+
+import { DepthStep, ScaleSpec } from '../types/color';
+
+/**
+ * @type ExtendedStep
+ * @description Steps of the extended scale, ColorDepth plus 950
+ */
+export type ExtendedStep = DepthStep | 950;
+
+/**
+ * @type RadixStep
+ * @description Steps of a Radix-style 12-step scale
+ */
+export type RadixStep = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+
+/**
+ * @type ChartStep
+ * @description Steps of the sequential chart scale
+ */
+export type ChartStep = 1 | 2 | 3 | 4 | 5;
+
+const DEPTH_STEPS: DepthStep[] = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const DEPTH_LIGHTNESS: Record<DepthStep, number> = {
+  50: 0.97, 100: 0.93, 200: 0.87, 300: 0.79, 400: 0.71,
+  500: 0.63, 600: 0.55, 700: 0.47, 800: 0.39, 900: 0.31,
+};
+
+const DEPTH_CHROMA: Record<DepthStep, number> = {
+  50: 0.15, 100: 0.3, 200: 0.5, 300: 0.7, 400: 0.9,
+  500: 1, 600: 0.95, 700: 0.85, 800: 0.7, 900: 0.55,
+};
+
+/**
+ * @constant depthScale
+ * @description The default ColorDepth scale: lightness evenly spaced between near-white and
+ * near-black, with chroma reduced toward both ends where full chroma reads as muddy
+ */
+export const depthScale: ScaleSpec<DepthStep> = {
+  steps: DEPTH_STEPS,
+  lightness: DEPTH_LIGHTNESS,
+  chroma: DEPTH_CHROMA,
+  anchor: 500,
+};
+
+/**
+ * @constant extendedScale
+ * @description ColorDepth with an extra 950 step for very dark surfaces
+ */
+export const extendedScale: ScaleSpec<ExtendedStep> = {
+  steps: [...DEPTH_STEPS, 950],
+  lightness: { ...DEPTH_LIGHTNESS, 950: 0.24 },
+  chroma: { ...DEPTH_CHROMA, 950: 0.45 },
+  anchor: 500,
+};
+
+/**
+ * @constant radixScale
+ * @description Radix-style 12-step scale: 1–2 app backgrounds, 3–5 component backgrounds,
+ * 6–8 borders, 9–10 solid colors, 11–12 text
+ */
+export const radixScale: ScaleSpec<RadixStep> = {
+  steps: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+  lightness: {
+    1: 0.99, 2: 0.98, 3: 0.955, 4: 0.93, 5: 0.9, 6: 0.86,
+    7: 0.81, 8: 0.74, 9: 0.63, 10: 0.58, 11: 0.5, 12: 0.32,
+  },
+  chroma: {
+    1: 0.05, 2: 0.1, 3: 0.2, 4: 0.3, 5: 0.38, 6: 0.45,
+    7: 0.55, 8: 0.7, 9: 1, 10: 0.95, 11: 0.8, 12: 0.4,
+  },
+  anchor: 9,
+};
+
+/**
+ * @constant chartScale
+ * @description Five-step sequential scale for charts, spaced more tightly at the light end
+ */
+export const chartScale: ScaleSpec<ChartStep> = {
+  steps: [1, 2, 3, 4, 5],
+  lightness: { from: 0.9, to: 0.4, easing: 'ease-in' },
+  chroma: { from: 0.5, to: 1 },
+};
+
+/**
+ * @constant scalePresets
+ * @description Built-in scale specs by name
+ */
+export const scalePresets = {
+  depth: depthScale,
+  extended: extendedScale,
+  radix: radixScale,
+  chart: chartScale,
+};
+
+/**
+ * @type ScalePresetName
+ * @description Name of a built-in scale spec
+ */
+export type ScalePresetName = keyof typeof scalePresets;
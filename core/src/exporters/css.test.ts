@@ -0,0 +1,17 @@
+import { describe, expect, test } from 'bun:test';
+import { createThemeStylesheet } from './css';
+import { themes } from '../themes';
+
+describe('createThemeStylesheet', () => {
+  test('escapes theme names in attribute selectors', () => {
+    const name = 'a"] body { x: y } [b="';
+    const css = createThemeStylesheet([themes.nord, { ...themes.accessible, name }]);
+    expect(css).toContain('[data-theme="a\\"] body { x: y } [b=\\""] {');
+    expect(css).not.toContain('[data-theme="a"]');
+  });
+
+  test('escapes backslashes and line breaks', () => {
+    const css = createThemeStylesheet([{ ...themes.nord, name: 'a\\b\nc' }]);
+    expect(css).toContain(':root, [data-theme="a\\\\b\\a c"] {');
+  });
+});
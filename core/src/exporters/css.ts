@@ -0,0 +1,160 @@
+/**
+ * @module exporters/css
+ * @description Serializes themes into CSS custom properties
+ */
+
+import { Theme, ThemeColors, getThemePalette } from '../themes';
+import { ThemePalette } from '../types/color';
+
+/**
+ * @interface CssVariableOptions
+ * @description Naming options for generated custom properties
+ */
+export interface CssVariableOptions {
+  /** Variable prefix, defaults to `glacier` (e.g. `--glacier-primary`) */
+  prefix?: string;
+  /** Whether to include the palette scales (e.g. `--glacier-primary-500`), defaults to true */
+  includePalette?: boolean;
+}
+
+/**
+ * @interface CssStylesheetOptions
+ * @description Options for a stylesheet covering several themes
+ */
+export interface CssStylesheetOptions extends CssVariableOptions {
+  /** Theme applied on `:root` when no theme attribute is set, defaults to the first theme */
+  defaultTheme?: string;
+  /** Theme applied on `:root` when the OS prefers a dark color scheme */
+  darkTheme?: string;
+  /** Attribute used to select a theme, defaults to `data-theme` */
+  attribute?: string;
+}
+
+const toKebabCase = (key: string) => key.replace(/([a-z])([A-Z0-9])/g, '$1-$2').toLowerCase();
+
+/**
+ * @function colorsToCssVariables
+ * @description Maps flat theme colors onto custom properties, e.g. `--glacier-primary-content`
+ * @param {ThemeColors} colors - Flat theme colors
+ * @param {string} [prefix='glacier'] - Variable prefix
+ * @returns {Record<string, string>} Custom property values by name
+ */
+export function colorsToCssVariables(colors: ThemeColors, prefix: string = 'glacier'): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const [role, value] of Object.entries(colors)) {
+    variables[`--${prefix}-${toKebabCase(role)}`] = value;
+  }
+  return variables;
+}
+
+/**
+ * @function paletteToCssVariables
+ * @description Maps palette scales onto custom properties, e.g. `--glacier-primary-500`
+ * @param {ThemePalette} palette - Scale-based palette
+ * @param {string} [prefix='glacier'] - Variable prefix
+ * @returns {Record<string, string>} Custom property values by name
+ */
+export function paletteToCssVariables(palette: ThemePalette, prefix: string = 'glacier'): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const { semantic, ...groups } = palette;
+
+  for (const [group, values] of Object.entries(groups)) {
+    for (const [key, value] of Object.entries(values as Record<string, string>)) {
+      variables[`--${prefix}-${group}-${key}`] = value;
+    }
+  }
+  for (const [role, color] of Object.entries(semantic)) {
+    for (const [key, value] of Object.entries(color)) {
+      variables[`--${prefix}-${role}-${key}`] = value;
+    }
+  }
+  return variables;
+}
+
+/**
+ * @function themeToCssVariables
+ * @description Maps a theme onto custom properties
+ * @param {Theme} theme - Runtime theme
+ * @param {CssVariableOptions} [options] - Naming options
+ * @returns {Record<string, string>} Custom property values by name
+ */
+export function themeToCssVariables(
+  theme: Theme,
+  { prefix = 'glacier', includePalette = true }: CssVariableOptions = {}
+): Record<string, string> {
+  return {
+    ...colorsToCssVariables(theme.colors, prefix),
+    ...(includePalette ? paletteToCssVariables(getThemePalette(theme), prefix) : {}),
+  };
+}
+
+/**
+ * @function toCssBlock
+ * @description Formats custom properties as a CSS rule
+ * @param {string} selector - Rule selector
+ * @param {Record<string, string>} variables - Custom property values by name
+ * @param {string} [indent=''] - Indentation of the rule
+ * @returns {string} CSS rule
+ */
+export function toCssBlock(selector: string, variables: Record<string, string>, indent: string = ''): string {
+  const declarations = Object.entries(variables)
+    .map(([name, value]) => `${indent}  ${name}: ${value};`)
+    .join('\n');
+
+  return `${indent}${selector} {\n${declarations}\n${indent}}`;
+}
+
+/**
+ * @function themeToCss
+ * @description Serializes a single theme as a CSS rule
+ * @param {Theme} theme - Runtime theme
+ * @param {string} [selector=':root'] - Rule selector
+ * @param {CssVariableOptions} [options] - Naming options
+ * @returns {string} CSS rule
+ */
+export function themeToCss(theme: Theme, selector: string = ':root', options?: CssVariableOptions): string {
+  return toCssBlock(selector, themeToCssVariables(theme, options));
+}
+
+/**
+ * Escapes a value for a double-quoted CSS string, so theme names cannot end the selector.
+ * @private
+ */
+const escapeCssString = (value: string): string =>
+  value.replace(/["\\]/g, '\\$&').replace(/[\n\r\f]/g, char => `\\${char.charCodeAt(0).toString(16)} `);
+
+/**
+ * @function createThemeStylesheet
+ * @description Serializes several themes into one stylesheet with a rule per theme
+ * (`[data-theme="nord"]`), the default theme on `:root` and an optional dark theme
+ * under `@media (prefers-color-scheme: dark)`
+ * @param {Theme[]} themes - Themes to include
+ * @param {CssStylesheetOptions} [options] - Stylesheet options
+ * @returns {string} CSS stylesheet
+ */
+export function createThemeStylesheet(
+  themes: Theme[],
+  { defaultTheme, darkTheme, attribute = 'data-theme', ...options }: CssStylesheetOptions = {}
+): string {
+  const defaultName = defaultTheme ?? themes[0]?.name;
+  const dark = themes.find(theme => theme.name === darkTheme);
+  // `:root` has the same specificity as `[data-theme]`, so the default rule has to come first
+  const ordered = [
+    ...themes.filter(theme => theme.name === defaultName),
+    ...themes.filter(theme => theme.name !== defaultName),
+  ];
+  const rules: string[] = [];
+
+  for (const theme of ordered) {
+    const selector = `[${attribute}="${escapeCssString(theme.name)}"]`;
+    rules.push(themeToCss(theme, theme.name === defaultName ? `:root, ${selector}` : selector, options));
+
+    if (theme.name === defaultName && dark && dark !== theme) {
+      const variables = themeToCssVariables(dark, options);
+      rules.push(`@media (prefers-color-scheme: dark) {\n${toCssBlock(`:root:not([${attribute}])`, variables, '  ')}\n}`);
+    }
+  }
+
+  return `${rules.join('\n\n')}\n`;
+}
@@ -0,0 +1,60 @@
+/**
+ * @module exporters/dtcg
+ * @description W3C Design Tokens Community Group format exporter
+ */
+
+import { Theme } from '../themes';
+import { themeToTokenTree } from './tokens';
+
+/**
+ * @interface DtcgToken
+ * @description A single design token
+ */
+export interface DtcgToken {
+  $value: string;
+  $type?: 'color';
+  $description?: string;
+}
+
+/**
+ * @interface DtcgGroup
+ * @description A group of tokens or nested groups
+ */
+export interface DtcgGroup {
+  $type?: 'color';
+  $description?: string;
+  [key: string]: DtcgToken | DtcgGroup | string | undefined;
+}
+
+/**
+ * @function toDtcgTokens
+ * @description Builds a DTCG token document; the flat role color is stored under `default`
+ * @param {Theme} theme - Runtime theme
+ * @returns {DtcgGroup} Token document
+ */
+export function toDtcgTokens(theme: Theme): DtcgGroup {
+  const document: DtcgGroup = {
+    $type: 'color',
+    $description: `glacierui "${theme.name}" theme`,
+  };
+
+  for (const [group, tokens] of Object.entries(themeToTokenTree(theme))) {
+    const entries: DtcgGroup = {};
+    for (const [key, value] of Object.entries(tokens)) {
+      entries[key === 'DEFAULT' ? 'default' : key] = { $value: value };
+    }
+    document[group] = entries;
+  }
+
+  return document;
+}
+
+/**
+ * @function toDtcgJson
+ * @description Serializes a theme as DTCG token JSON
+ * @param {Theme} theme - Runtime theme
+ * @returns {string} JSON document
+ */
+export function toDtcgJson(theme: Theme): string {
+  return `${JSON.stringify(toDtcgTokens(theme), null, 2)}\n`;
+}
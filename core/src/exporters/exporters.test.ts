@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'bun:test';
+import { exporters, ExportFormat } from './index';
+import { themes } from '../themes';
+
+const formats = Object.keys(exporters) as ExportFormat[];
+
+describe.each(['nord', 'accessible'] as const)('exporters for %s', name => {
+  test.each(formats)('%s', format => {
+    expect(exporters[format](themes[name])).toMatchSnapshot();
+  });
+});
+
+describe('exporters with hostile theme names', () => {
+  const hostile = { ...themes.nord, name: 'x */ export const pwned = 1; /*\n$pwned: red;' };
+  const transpiler = new Bun.Transpiler({ loader: 'ts' });
+
+  test.each(['ts', 'tailwind'] as const)('%s keeps the name inside its comment', format => {
+    const { exports } = transpiler.scan(exporters[format](hostile));
+    expect(exports).not.toContain('pwned');
+  });
+
+  test('scss keeps the name on the comment line', () => {
+    const lines = exporters.scss(hostile).split('\n');
+    expect(lines[0]).toEndWith('$pwned: red;" theme');
+    expect(lines.some(line => line.startsWith('$pwned'))).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @module exporters
+ * @description Serializers that turn themes into files for other tools
+ */
+
+import { Theme } from '../themes';
+import { createThemeStylesheet } from './css';
+import { toTailwindPreset } from './tailwind';
+import { toDtcgJson } from './dtcg';
+import { toScss } from './scss';
+import { toTypeScriptModule } from './typescript';
+
+export type ExportFormat = 'json' | 'css' | 'tailwind' | 'dtcg' | 'scss' | 'ts';
+
+/**
+ * @constant exporters
+ * @description Serializer for each export format
+ */
+export const exporters: Record<ExportFormat, (theme: Theme) => string> = {
+  json: theme => `${JSON.stringify(theme, null, 2)}\n`,
+  css: theme => createThemeStylesheet([theme]),
+  tailwind: toTailwindPreset,
+  dtcg: toDtcgJson,
+  scss: theme => toScss(theme),
+  ts: toTypeScriptModule,
+};
+
+/**
+ * @function exportTheme
+ * @description Serializes a theme into the given format
+ * @param {Theme} theme - Runtime theme
+ * @param {ExportFormat} format - Target format
+ * @returns {string} File contents
+ */
+export function exportTheme(theme: Theme, format: ExportFormat): string {
+  return exporters[format](theme);
+}
+
+export * from './css';
+export * from './tokens';
+export * from './tailwind';
+export * from './dtcg';
+export * from './scss';
+export * from './typescript';
@@ -0,0 +1,39 @@
+/**
+ * @module exporters/scss
+ * @description SCSS variables and map exporter
+ */
+
+import { Theme } from '../themes';
+import { quoteThemeName, themeToTokenTree } from './tokens';
+
+/**
+ * @function toScss
+ * @description Serializes a theme as SCSS variables (`$glacier-primary`, `$glacier-primary-500`)
+ * followed by a nested `$glacier-colors` map
+ * @param {Theme} theme - Runtime theme
+ * @param {string} [prefix='glacier'] - Variable prefix
+ * @returns {string} SCSS source
+ */
+export function toScss(theme: Theme, prefix: string = 'glacier'): string {
+  const tree = themeToTokenTree(theme);
+  const lines = [`// glacierui ${quoteThemeName(theme.name)} theme`, ''];
+
+  for (const [group, tokens] of Object.entries(tree)) {
+    for (const [key, value] of Object.entries(tokens)) {
+      const name = key === 'DEFAULT' ? `${prefix}-${group}` : `${prefix}-${group}-${key}`;
+      lines.push(`$${name}: ${value};`);
+    }
+  }
+
+  lines.push('', `$${prefix}-colors: (`);
+  for (const [group, tokens] of Object.entries(tree)) {
+    lines.push(`  '${group}': (`);
+    for (const [key, value] of Object.entries(tokens)) {
+      lines.push(`    '${key === 'DEFAULT' ? 'default' : key}': ${value},`);
+    }
+    lines.push('  ),');
+  }
+  lines.push(');', '');
+
+  return lines.join('\n');
+}
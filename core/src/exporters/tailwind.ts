@@ -0,0 +1,33 @@
+/**
+ * @module exporters/tailwind
+ * @description Tailwind CSS preset exporter
+ */
+
+import { Theme } from '../themes';
+import { quoteThemeName, themeToTokenTree } from './tokens';
+
+/**
+ * @function toTailwindColors
+ * @description Builds a Tailwind `colors` object, e.g. `bg-primary`, `text-primary-content`, `border-neutral-300`
+ * @param {Theme} theme - Runtime theme
+ * @returns {Record<string, Record<string, string>>} Tailwind color config
+ */
+export function toTailwindColors(theme: Theme): Record<string, Record<string, string>> {
+  return themeToTokenTree(theme);
+}
+
+/**
+ * @function toTailwindPreset
+ * @description Serializes a theme as a Tailwind preset module extending `theme.extend.colors`
+ * @param {Theme} theme - Runtime theme
+ * @returns {string} Preset module source
+ */
+export function toTailwindPreset(theme: Theme): string {
+  const preset = { theme: { extend: { colors: toTailwindColors(theme) } } };
+
+  return [
+    `/** Tailwind preset for the glacierui ${quoteThemeName(theme.name)} theme */`,
+    `export default ${JSON.stringify(preset, null, 2)};`,
+    '',
+  ].join('\n');
+}
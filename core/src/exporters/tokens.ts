@@ -0,0 +1,77 @@
+/**
+ * @module exporters/tokens
+ * @description Format-neutral token tree shared by the design-token exporters
+ */
+
+import { Theme, getThemePalette } from '../themes';
+
+/**
+ * @typedef TokenTree
+ * @description Color groups keyed by role, each mapping a token key (`DEFAULT`, `content`, `500`, ...) to a hex color
+ */
+export type TokenTree = Record<string, Record<string, string>>;
+
+/**
+ * @function themeToTokenTree
+ * @description Groups the flat colors and palette scales of a theme by role.
+ * `DEFAULT` holds the flat color, `content` its text color, `50`–`900` the scale
+ * and `light`/`dark`/`bg` the semantic variations.
+ * @param {Theme} theme - Runtime theme
+ * @returns {TokenTree} Token groups
+ */
+export function themeToTokenTree(theme: Theme): TokenTree {
+  const { colors } = theme;
+  const palette = getThemePalette(theme);
+  const semantic = (role: 'info' | 'success' | 'warning' | 'error') => {
+    const { light, dark, bg } = palette.semantic[role];
+    return {
+      DEFAULT: colors[role],
+      content: colors[`${role}Content`],
+      light,
+      dark,
+      bg,
+    };
+  };
+
+  return {
+    primary: { DEFAULT: colors.primary, content: colors.primaryContent, ...palette.primary },
+    secondary: { DEFAULT: colors.secondary, content: colors.secondaryContent, ...palette.secondary },
+    accent: { DEFAULT: colors.accent, content: colors.accentContent, ...palette.accent },
+    neutral: { DEFAULT: colors.neutral, content: colors.neutralContent, ...palette.neutral },
+    base: { 100: colors.base100, 200: colors.base200, 300: colors.base300, content: colors.baseContent },
+    info: semantic('info'),
+    success: semantic('success'),
+    warning: semantic('warning'),
+    error: semantic('error'),
+    background: { ...palette.background },
+    text: { ...palette.text },
+  };
+}
+
+/**
+ * @function toIdentifier
+ * @description Converts a theme name into a camelCase JavaScript identifier
+ * @param {string} name - Theme name
+ * @returns {string} Identifier
+ */
+export function toIdentifier(name: string): string {
+  const identifier = name
+    .replace(/[^a-zA-Z0-9]+(.)?/g, (_, char?: string) => (char ? char.toUpperCase() : ''))
+    .replace(/^[A-Z]/, char => char.toLowerCase());
+
+  return /^[a-zA-Z_$]/.test(identifier) ? identifier : `theme${identifier}`;
+}
+
+/**
+ * @function quoteThemeName
+ * @description Quotes a theme name for a comment in generated source. Quotes, backslashes and
+ * line breaks are escaped and `*\/` is broken up, so a name cannot end the comment.
+ * @param {string} name - Theme name
+ * @returns {string} Double-quoted name
+ */
+export function quoteThemeName(name: string): string {
+  return JSON.stringify(name)
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029')
+    .replace(/\*\//g, '*\\/');
+}
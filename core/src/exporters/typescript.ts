@@ -0,0 +1,28 @@
+/**
+ * @module exporters/typescript
+ * @description Typed TypeScript module exporter
+ */
+
+import { Theme } from '../themes';
+import { quoteThemeName, themeToTokenTree, toIdentifier } from './tokens';
+
+/**
+ * @function toTypeScriptModule
+ * @description Serializes a theme as a TypeScript module with a `const` color object and its type
+ * @param {Theme} theme - Runtime theme
+ * @returns {string} TypeScript source
+ */
+export function toTypeScriptModule(theme: Theme): string {
+  const identifier = toIdentifier(theme.name);
+  const typeName = `${identifier.charAt(0).toUpperCase()}${identifier.slice(1)}Colors`;
+
+  return [
+    `/** Colors of the glacierui ${quoteThemeName(theme.name)} theme */`,
+    `export const ${identifier} = ${JSON.stringify(themeToTokenTree(theme), null, 2)} as const;`,
+    '',
+    `export type ${typeName} = typeof ${identifier};`,
+    '',
+    `export default ${identifier};`,
+    '',
+  ].join('\n');
+}
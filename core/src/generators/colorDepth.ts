@@ -4,11 +4,116 @@
  * @version 0.2.0
  */
 
-import { ColorDepth, SemanticColor } from '../types/color';
+import {
+  ColorDepth,
+  ColorScale,
+  ContrastTarget,
+  DepthStep,
+  OKLCH,
+  ScaleCurve,
+  ScaleEasing,
+  ScaleSpec,
+  ScaleStep,
+  ScaleValues,
+  SemanticColor,
+} from '../types/color';
+import { depthScale } from '../constants/scales';
 import { ColorConverter } from '../utils/colorConverter';
+import { ContrastSolver } from './contrastSolver';
+
+/**
+ * @interface ColorDepthOptions
+ * @description Options controlling how shades are generated
+ */
+export interface ColorDepthOptions {
+  /**
+   * `hsl` sets fixed HSL lightness values (default, kept for backward compatibility);
+   * `oklch` spaces shades evenly by perceived lightness
+   */
+  mode?: 'hsl' | 'oklch';
+  /**
+   * `fixed` always places the input color at 500; `auto` places it at the step
+   * whose lightness it matches best. Only used in `oklch` mode.
+   */
+  anchor?: 'fixed' | 'auto';
+}
+
+/**
+ * @interface ScaleOptions
+ * @description Options for generating a scale from a spec
+ */
+export interface ScaleOptions<Step extends ScaleStep> {
+  /**
+   * Step the input color is placed at; `auto` picks the step whose lightness it matches best
+   * and `none` generates every step from the spec. Defaults to the spec's anchor, or `none`.
+   */
+  anchor?: Step | 'auto' | 'none';
+}
+
+const EASINGS: Record<Exclude<ScaleEasing, Function>, (t: number) => number> = {
+  linear: t => t,
+  'ease-in': t => t * t,
+  'ease-out': t => 1 - (1 - t) * (1 - t),
+  'ease-in-out': t => (t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t)),
+};
+
+/**
+ * Resolves per-step values from a record or a curve.
+ * @private
+ */
+const resolveValues = <Step extends ScaleStep>(
+  values: ScaleValues<Step>,
+  steps: readonly Step[],
+  name: string
+): Record<Step, number> => {
+  const resolved = {} as Record<Step, number>;
+  const isCurve = typeof (values as ScaleCurve).from === 'number' && typeof (values as ScaleCurve).to === 'number';
+
+  steps.forEach((step, index) => {
+    if (isCurve) {
+      const { from, to, easing = 'linear' } = values as ScaleCurve;
+      const ease = typeof easing === 'function' ? easing : EASINGS[easing];
+      const t = steps.length > 1 ? index / (steps.length - 1) : 0;
+      resolved[step] = from + (to - from) * ease(t);
+    } else {
+      const value = (values as Record<Step, number>)[step];
+      if (typeof value !== 'number') {
+        throw new Error(`Scale spec has no ${name} for step ${step}`);
+      }
+      resolved[step] = value;
+    }
+  });
+  return resolved;
+};
+
+/**
+ * Share of chroma kept at a lightness when a spec gives no chroma values: full chroma at the
+ * input's own lightness, falling off faster toward white than toward black.
+ * @private
+ */
+const defaultChromaShare = (lightness: number, baseLightness: number): number => {
+  if (lightness >= baseLightness) {
+    const distance = baseLightness < 1 ? (lightness - baseLightness) / (1 - baseLightness) : 0;
+    return 1 - 0.85 * Math.pow(distance, 1.4);
+  }
+  const distance = baseLightness > 0 ? (baseLightness - lightness) / baseLightness : 0;
+  return 1 - 0.45 * Math.pow(distance, 1.5);
+};
 
 export class ColorDepthGenerator {
-  static generateColorDepth(baseColor: string): ColorDepth {
+  /**
+   * Generates shades of a color from lightest (50) to darkest (900)
+   * @param color - Base color, as hex or any CSS color
+   * @param options - Generation mode and anchoring
+   * @returns Color depth
+   */
+  static generateColorDepth(color: string, options: ColorDepthOptions = {}): ColorDepth {
+    const baseColor = ColorConverter.toHex(color);
+
+    if (options.mode === 'oklch') {
+      return this.generateScale(baseColor, depthScale, { anchor: options.anchor === 'auto' ? 'auto' : 500 });
+    }
+
     const rgb = ColorConverter.hexToRgb(baseColor);
     const hsl = ColorConverter.rgbToHsl(rgb);
     
@@ -26,12 +131,150 @@ export class ColorDepthGenerator {
     };
   }
 
+  /**
+   * Generates a scale from a spec in OKLCH, keeping the input hue and reducing chroma
+   * where shades fall outside sRGB
+   * @param color - Base color, as hex or any CSS color
+   * @param spec - Scale spec, e.g. one of `scalePresets`
+   * @param options - Anchoring of the input color
+   * @returns Hex color for every step of the spec
+   * @throws If the spec has no steps or lacks a value for one of them
+   */
+  static generateScale<const Step extends ScaleStep>(
+    color: string,
+    spec: ScaleSpec<Step>,
+    options: ScaleOptions<Step> = {}
+  ): ColorScale<Step> {
+    const { steps } = spec;
+    if (steps.length === 0) {
+      throw new Error('Scale spec needs at least one step');
+    }
+
+    const baseColor = ColorConverter.toHex(color);
+    const base = ColorConverter.hexToOklch(baseColor);
+    const chroma = spec.chroma ? resolveValues(spec.chroma, steps, 'chroma') : null;
+    const targets = this.resolveLightness(base, spec);
+
+    const anchorOption = options.anchor ?? spec.anchor ?? 'none';
+    const anchorStep = anchorOption === 'auto'
+      ? this.nearestStep(base.l, targets, steps)
+      : anchorOption === 'none' ? null : anchorOption;
+    if (anchorStep !== null && !steps.includes(anchorStep)) {
+      throw new Error(`Anchor step ${anchorStep} is not part of the scale`);
+    }
+
+    const lightnessAt = (step: Step): number => {
+      if (anchorStep === null || spec.contrast) return targets[step];
+
+      // Stretch the targets so the anchor step lands on the input's own lightness,
+      // keeping the steps on either side monotonic
+      const values = steps.map(s => targets[s]);
+      const target = targets[step];
+      const anchorTarget = targets[anchorStep];
+      const edge = target > anchorTarget
+        ? Math.max(Math.max(...values), base.l)
+        : Math.min(Math.min(...values), base.l);
+      if (target === anchorTarget || edge === anchorTarget) return base.l;
+      return base.l + ((target - anchorTarget) * (edge - base.l)) / (edge - anchorTarget);
+    };
+
+    const chromaAt = (step: Step, lightness: number): number => {
+      if (!chroma) return base.c * defaultChromaShare(lightness, base.l);
+      const anchorShare = anchorStep === null ? 1 : chroma[anchorStep] || 1;
+      return base.c * chroma[step] / anchorShare;
+    };
+
+    const scale = {} as ColorScale<Step>;
+    for (const step of steps) {
+      if (step === anchorStep) {
+        scale[step] = baseColor;
+        continue;
+      }
+      const l = lightnessAt(step);
+      scale[step] = ColorConverter.oklchToHex({ l, c: chromaAt(step, l), h: base.h });
+    }
+    return scale;
+  }
+
+  /**
+   * Returns the step whose target lightness is closest to a color's
+   * @param color - Hex color or any CSS color
+   * @param spec - Scale spec, defaults to the ColorDepth scale
+   * @returns Step the color fits best
+   */
+  static findNaturalStep(color: string): DepthStep;
+  static findNaturalStep<const Step extends ScaleStep>(color: string, spec: ScaleSpec<Step>): Step;
+  static findNaturalStep(color: string, spec: ScaleSpec = depthScale): ScaleStep {
+    const base = ColorConverter.hexToOklch(color);
+    return this.nearestStep(base.l, this.resolveLightness(base, spec), spec.steps);
+  }
+
+  /**
+   * Resolves the target OKLCH lightness of every step, solving contrast targets if given
+   * @private
+   */
+  private static resolveLightness<Step extends ScaleStep>(base: OKLCH, spec: ScaleSpec<Step>): Record<Step, number> {
+    if (!spec.contrast) {
+      return resolveValues(spec.lightness ?? { from: 0.97, to: 0.31 }, spec.steps, 'lightness');
+    }
+
+    const contrast = resolveValues(spec.contrast, spec.steps, 'contrast');
+    const chroma = spec.chroma ? resolveValues(spec.chroma, spec.steps, 'chroma') : null;
+    const lightness = {} as Record<Step, number>;
+    for (const step of spec.steps) {
+      const c = base.c * (chroma ? chroma[step] : 1);
+      lightness[step] = this.solveLightness(contrast[step], spec.contrastAgainst ?? 'white', c, base.h);
+    }
+    return lightness;
+  }
+
+  /**
+   * Finds the OKLCH lightness at which a color reaches a WCAG contrast ratio against white or black
+   * @private
+   */
+  private static solveLightness(ratio: number, against: 'white' | 'black', c: number, h: number): number {
+    const contrastAt = (l: number) => {
+      const info = ColorConverter.getAccessibilityInfo(ColorConverter.oklchToHex({ l, c, h }));
+      return against === 'white' ? info.contrastWithWhite : info.contrastWithBlack;
+    };
+
+    // Contrast with white grows as lightness falls; contrast with black grows as it rises
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 24; i++) {
+      const mid = (low + high) / 2;
+      const darkEnough = against === 'white' ? contrastAt(mid) >= ratio : contrastAt(mid) < ratio;
+      if (darkEnough) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return (low + high) / 2;
+  }
+
+  /**
+   * Returns the step whose target lightness is closest to a lightness
+   * @private
+   */
+  private static nearestStep<Step extends ScaleStep>(
+    lightness: number,
+    targets: Record<Step, number>,
+    steps: readonly Step[]
+  ): Step {
+    return steps.reduce((best, step) =>
+      Math.abs(targets[step] - lightness) < Math.abs(targets[best] - lightness) ? step : best
+    );
+  }
+
   /**
    * Generates semantic color variations
-   * @param baseColor - Base hex color
+   * @param color - Base color, as hex or any CSS color
+   * @param isDark - Whether the variations are for a dark theme, which needs a dark `bg`
    * @returns Semantic color variations
    */
-  static generateSemanticColor(baseColor: string): SemanticColor {
+  static generateSemanticColor(color: string, isDark = false): SemanticColor {
+    const baseColor = ColorConverter.toHex(color);
     const rgb = ColorConverter.hexToRgb(baseColor);
     const hsl = ColorConverter.rgbToHsl(rgb);
     
@@ -39,10 +282,20 @@ export class ColorDepthGenerator {
       base: baseColor,
       light: ColorConverter.hslToHex({ ...hsl, l: Math.min(hsl.l + 15, 100) }),
       dark: ColorConverter.hslToHex({ ...hsl, l: Math.max(hsl.l - 15, 0) }),
-      bg: ColorConverter.hslToHex({ ...hsl, l: 95, s: Math.max(hsl.s - 30, 0) }),
-      text: ColorConverter.getAccessibilityInfo(baseColor).contrastWithWhite > 4.5 
-        ? '#FFFFFF' 
-        : '#000000',
+      bg: isDark
+        ? ColorConverter.hslToHex({ ...hsl, l: 12, s: hsl.s * 0.4 })
+        : ColorConverter.hslToHex({ ...hsl, l: 95, s: Math.max(hsl.s - 30, 0) }),
+      text: this.getContentColor(baseColor),
     };
   }
+
+  /**
+   * Picks a readable text color for a background
+   * @param background - Background hex color
+   * @param target - Contrast to reach, defaults to WCAG AA (4.5:1)
+   * @returns Near-white or near-dark text tinted with the background's hue, whichever reads better
+   */
+  static getContentColor(background: string, target?: ContrastTarget): string {
+    return ContrastSolver.solveContent(background, target).color;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,146 @@
+/**
+ * @module generators/contrastSolver
+ * @description Finds colors that reach a WCAG or APCA contrast target against a background
+ */
+
+import { ContrastSolution, ContrastTarget, OKLCH } from '../types/color';
+import { ColorConverter } from '../utils/colorConverter';
+
+/**
+ * @interface ContrastSolveOptions
+ * @description Options for ContrastSolver.solve
+ */
+export interface ContrastSolveOptions {
+  /** Contrast to reach, defaults to WCAG AA (4.5:1) */
+  target?: ContrastTarget;
+  /**
+   * Preferred color; the solution keeps its hue and chroma and stays as close to its
+   * lightness as the target allows. Defaults to the background.
+   */
+  color?: string;
+  /**
+   * Restricts the solution to these colors, e.g. `Object.values(scale)`. The passing candidate
+   * closest to `color` wins; if none passes, the solver falls back to adjusting `color`.
+   */
+  candidates?: string[];
+}
+
+/** WCAG AA for normal text */
+const DEFAULT_TARGET: ContrastTarget = { wcag: 4.5 };
+
+/** Highest chroma used to tint content colors with the hue of their background */
+const CONTENT_TINT = 0.03;
+
+/**
+ * @class ContrastSolver
+ * @description Solves for readable, hue-preserving foreground colors
+ */
+export class ContrastSolver {
+  /**
+   * Measures the contrast of a foreground on a background in the metric of a target
+   * @param foreground - Foreground hex color
+   * @param background - Background hex color
+   * @param target - Target whose metric to use
+   * @returns WCAG ratio, or absolute APCA Lc
+   */
+  static measure(foreground: string, background: string, target: ContrastTarget = DEFAULT_TARGET): number {
+    return 'apca' in target
+      ? Math.abs(ColorConverter.getApcaContrast(foreground, background))
+      : ColorConverter.getContrastRatio(foreground, background);
+  }
+
+  /**
+   * Finds the color nearest to the preferred color that meets a contrast target on a background
+   * @param background - Background hex color or any CSS color
+   * @param options - Target, preferred color and candidates
+   * @returns Solved color, the contrast it reaches and whether it meets the target
+   */
+  static solve(background: string, options: ContrastSolveOptions = {}): ContrastSolution {
+    const target = options.target ?? DEFAULT_TARGET;
+    const preferred = ColorConverter.toHex(options.color ?? background);
+    const threshold = 'apca' in target ? target.apca : target.wcag;
+    const solution = (color: string): ContrastSolution => {
+      const contrast = this.measure(color, background, target);
+      return { color, contrast, passes: contrast >= threshold };
+    };
+
+    if (options.candidates) {
+      const origin = ColorConverter.rgbToOklab(ColorConverter.hexToRgb(preferred));
+      const distance = (color: string) => {
+        const { l, a, b } = ColorConverter.rgbToOklab(ColorConverter.hexToRgb(color));
+        return Math.hypot(l - origin.l, a - origin.a, b - origin.b);
+      };
+      const passing = options.candidates
+        .map(solution)
+        .filter(candidate => candidate.passes);
+
+      if (passing.length > 0) {
+        return passing.reduce((best, candidate) =>
+          distance(candidate.color) < distance(best.color) ? candidate : best
+        );
+      }
+    }
+
+    const start = solution(preferred);
+    if (start.passes) return start;
+
+    const oklch = ColorConverter.hexToOklch(preferred);
+    const backgroundLightness = ColorConverter.hexToOklch(background).l;
+    const toHex = (l: number) => ColorConverter.oklchToHex({ ...oklch, l });
+
+    // Contrast grows monotonically away from the background's lightness on either side,
+    // so each side has a single threshold lightness
+    const sides = [
+      this.findThreshold(l => solution(toHex(l)).passes, backgroundLightness, 1),
+      this.findThreshold(l => solution(toHex(l)).passes, backgroundLightness, 0),
+    ].filter((l): l is number => l !== null);
+
+    if (sides.length === 0) {
+      const [light, dark] = [solution(toHex(1)), solution(toHex(0))];
+      return light.contrast >= dark.contrast ? light : dark;
+    }
+
+    const nearest = sides.reduce((best, l) => (Math.abs(l - oklch.l) < Math.abs(best - oklch.l) ? l : best));
+    return solution(toHex(nearest));
+  }
+
+  /**
+   * Picks a readable text color for a background, tinted with the background's hue
+   * @param background - Background hex color or any CSS color
+   * @param target - Contrast to reach, defaults to WCAG AA (4.5:1)
+   * @returns Near-white or near-dark content color, whichever reads better
+   */
+  static solveContent(background: string, target: ContrastTarget = DEFAULT_TARGET): ContrastSolution {
+    const { c, h } = ColorConverter.hexToOklch(background);
+    const tint: Omit<OKLCH, 'l'> = { c: Math.min(c, CONTENT_TINT), h };
+
+    const light = this.solve(background, { target, color: ColorConverter.oklchToHex({ ...tint, l: 0.98 }) });
+    const dark = this.solve(background, { target, color: ColorConverter.oklchToHex({ ...tint, l: 0.2 }) });
+
+    if (light.passes !== dark.passes) {
+      return light.passes ? light : dark;
+    }
+    return light.contrast >= dark.contrast ? light : dark;
+  }
+
+  /**
+   * Binary-searches the lightness closest to `from` that still passes, moving toward `to`
+   * @private
+   * @returns Threshold lightness, or null if even `to` does not pass
+   */
+  private static findThreshold(passes: (l: number) => boolean, from: number, to: number): number | null {
+    if (!passes(to)) return null;
+
+    let failing = from;
+    let passing = to;
+    for (let i = 0; i < 20; i++) {
+      const mid = (failing + passing) / 2;
+      if (passes(mid)) {
+        passing = mid;
+      } else {
+        failing = mid;
+      }
+    }
+    return passing;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @module generators/harmony
+ * @description Color harmonies built by rotating hue in OKLCH
+ */
+
+import { OKLCH } from '../types/color';
+import { ColorConverter } from '../utils/colorConverter';
+
+/**
+ * @type HarmonyScheme
+ * @description Classic color harmonies
+ */
+export type HarmonyScheme =
+  | 'complementary'
+  | 'split-complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'tetradic'
+  | 'monochromatic';
+
+/** Hue offsets of each scheme, starting with the base color */
+const HUE_OFFSETS: Record<HarmonyScheme, number[]> = {
+  complementary: [0, 180],
+  'split-complementary': [0, 150, 210],
+  analogous: [0, -30, 30],
+  triadic: [0, 120, 240],
+  tetradic: [0, 60, 180, 240],
+  monochromatic: [0],
+};
+
+/** Lightness shift between repeats of the scheme's hues */
+const LIGHTNESS_STEP = 0.12;
+
+/**
+ * @class HarmonyGenerator
+ * @description Derives harmonious colors from a base color, keeping lightness and chroma
+ * while rotating hue in OKLCH so every color reads as equally bright
+ */
+export class HarmonyGenerator {
+  /**
+   * Rotates the hue of a color in OKLCH
+   * @param color - Hex color or any CSS color
+   * @param degrees - Hue rotation in degrees
+   * @returns Hex color with the same lightness and chroma, reduced only if outside sRGB
+   */
+  static rotateHue(color: string, degrees: number): string {
+    const { l, c, h } = ColorConverter.hexToOklch(color);
+    return ColorConverter.oklchToHex({ l, c, h: (((h + degrees) % 360) + 360) % 360 });
+  }
+
+  /**
+   * Generates harmonious colors for a base color
+   * @param baseColor - Hex color or any CSS color
+   * @param scheme - Harmony scheme
+   * @param count - Number of colors, defaults to the number of hues in the scheme; further
+   * colors repeat the scheme's hues, alternately lighter and darker
+   * @returns Colors starting with the base color
+   */
+  static generate(baseColor: string, scheme: HarmonyScheme, count?: number): string[] {
+    const offsets = HUE_OFFSETS[scheme];
+    const total = count ?? (scheme === 'monochromatic' ? 5 : offsets.length);
+    const base = ColorConverter.hexToOklch(baseColor);
+
+    return Array.from({ length: total }, (_, index) => {
+      if (index === 0) return ColorConverter.toHex(baseColor);
+
+      const round = Math.floor(index / offsets.length);
+      const shift = round === 0 ? 0 : Math.ceil(round / 2) * LIGHTNESS_STEP * (round % 2 === 1 ? 1 : -1);
+      return this.shift(base, offsets[index % offsets.length], shift);
+    });
+  }
+
+  /**
+   * Picks the secondary and accent colors of a theme for a scheme
+   * @param baseColor - Primary hex color or any CSS color
+   * @param scheme - Harmony scheme
+   * @returns Secondary and accent colors
+   */
+  static themeColors(baseColor: string, scheme: HarmonyScheme): { secondary: string; accent: string } {
+    const base = ColorConverter.hexToOklch(baseColor);
+
+    switch (scheme) {
+      case 'complementary':
+        // Only one other hue, so the secondary is a deeper shade of the primary
+        return { secondary: this.shift(base, 0, -LIGHTNESS_STEP), accent: this.shift(base, 180, 0) };
+      case 'monochromatic':
+        return {
+          secondary: this.shift(base, 0, -LIGHTNESS_STEP),
+          accent: this.shift({ ...base, c: base.c * 0.6 }, 0, LIGHTNESS_STEP),
+        };
+      case 'tetradic':
+        return { secondary: this.shift(base, 60, 0), accent: this.shift(base, 180, 0) };
+      default: {
+        const [, secondary, accent] = HUE_OFFSETS[scheme];
+        return { secondary: this.shift(base, secondary, 0), accent: this.shift(base, accent, 0) };
+      }
+    }
+  }
+
+  /**
+   * Rotates hue and shifts lightness of an OKLCH color.
+   * @private
+   */
+  private static shift({ l, c, h }: OKLCH, degrees: number, lightness: number): string {
+    return ColorConverter.oklchToHex({
+      l: Math.min(0.98, Math.max(0.05, l + lightness)),
+      c,
+      h: (((h + degrees) % 360) + 360) % 360,
+    });
+  }
+}
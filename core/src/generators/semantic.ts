@@ -0,0 +1,111 @@
+/**
+ * @module generators/semantic
+ * @description Semantic state colors (success, warning, error, info) for generated themes
+ */
+
+import { OKLCH, SemanticRole } from '../types/color';
+import { ColorConverter } from '../utils/colorConverter';
+
+/**
+ * @type SemanticMode
+ * @description `standard` uses fixed state colors; `harmonized` tints the standard hues
+ * toward the brand color's hue, chroma and lightness
+ */
+export type SemanticMode = 'standard' | 'harmonized';
+
+/**
+ * @constant standardSemanticColors
+ * @description Fixed state colors for light and dark themes
+ */
+export const standardSemanticColors: Record<'light' | 'dark', Record<SemanticRole, string>> = {
+  light: {
+    success: '#00C853',
+    warning: '#FFD600',
+    error: '#FF1744',
+    info: '#2196F3',
+  },
+  dark: {
+    success: '#69F0AE',
+    warning: '#FFE57F',
+    error: '#FF8A80',
+    info: '#82B1FF',
+  },
+};
+
+const ROLES: SemanticRole[] = ['success', 'warning', 'error', 'info'];
+
+/** Furthest a standard hue is rotated toward the brand hue, in degrees */
+const MAX_HUE_SHIFT = 15;
+/** Smallest ΔE2000 allowed between two harmonized state colors */
+const MIN_DIFFERENCE = 20;
+/** Chroma of a typical saturated brand color; brands below it get proportionally muted states */
+const REFERENCE_CHROMA = 0.15;
+
+/**
+ * @class SemanticColorGenerator
+ * @description Picks the base colors of the semantic states for a theme
+ */
+export class SemanticColorGenerator {
+  /**
+   * Returns the fixed state colors
+   * @param isDark - Whether the theme is dark
+   * @returns Base color of each state
+   */
+  static standard(isDark = false): Record<SemanticRole, string> {
+    return { ...standardSemanticColors[isDark ? 'dark' : 'light'] };
+  }
+
+  /**
+   * Harmonizes the standard state colors with a brand color: hues rotate up to 15° toward
+   * the brand hue and chroma and lightness follow the brand. The rotation is halved, then
+   * dropped, if it would make two states harder to tell apart than ΔE2000 20.
+   * @param brandColor - Brand hex color or any CSS color
+   * @param isDark - Whether the theme is dark
+   * @returns Base color of each state
+   */
+  static harmonize(brandColor: string, isDark = false): Record<SemanticRole, string> {
+    const brand = ColorConverter.hexToOklch(brandColor);
+    const chromaRatio = Math.min(1, Math.max(0.35, brand.c / REFERENCE_CHROMA));
+
+    let colors = {} as Record<SemanticRole, string>;
+    for (const amount of [1, 0.5, 0]) {
+      colors = {} as Record<SemanticRole, string>;
+      for (const role of ROLES) {
+        const standard = ColorConverter.hexToOklch(standardSemanticColors.light[role]);
+        colors[role] = ColorConverter.oklchToHex(
+          this.adjust(standard, brand, chromaRatio, amount, isDark)
+        );
+      }
+
+      const distinct = ROLES.every((a, i) =>
+        ROLES.slice(i + 1).every(b => ColorConverter.deltaE2000(colors[a], colors[b]) >= MIN_DIFFERENCE)
+      );
+      if (distinct) break;
+    }
+    return colors;
+  }
+
+  /**
+   * Moves a standard state color toward the brand color.
+   * @private
+   */
+  private static adjust(
+    standard: OKLCH,
+    brand: OKLCH,
+    chromaRatio: number,
+    amount: number,
+    isDark: boolean
+  ): OKLCH {
+    const difference = ((brand.h - standard.h + 540) % 360) - 180;
+    const rotation = Math.sign(difference) * Math.min(Math.abs(difference) / 2, MAX_HUE_SHIFT) * amount;
+    // Brands with no hue give no direction to rotate toward
+    const h = brand.c < 0.02 ? standard.h : standard.h + rotation;
+
+    const l = Math.min(0.92, Math.max(0.45, standard.l + (brand.l - 0.63) * 0.4));
+    const c = standard.c * chromaRatio;
+
+    return isDark
+      ? { l: Math.min(0.9, l + 0.1), c: c * 0.8, h }
+      : { l, c, h };
+  }
+}
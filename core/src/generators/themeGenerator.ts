@@ -1,60 +1,196 @@
-import { Theme, ColorDepth, SemanticColor } from '../types/color';
-import { ColorDepthGenerator } from './colorDepth';
+import { SemanticRole, ThemePalette } from '../types/color';
+import { Theme } from '../themes/types';
+import { createTheme } from '../themes/adapters';
+import { ColorDepthGenerator, ColorDepthOptions } from './colorDepth';
+import { ContrastSolver } from './contrastSolver';
+import { HarmonyGenerator, HarmonyScheme } from './harmony';
+import { SemanticColorGenerator, SemanticMode } from './semantic';
 import { ColorConverter } from '../utils/colorConverter';
-import { findColorByWord } from '../constants/colorWords';
+import { parseColorPhrase } from '../utils/colorPhrase';
 
-interface ThemeOptions {
+export interface ThemeOptions {
+  /** Theme name, defaults to "generated" */
+  name?: string;
   baseColor: string;
+  /** Overrides the secondary color derived from the harmony */
+  secondaryColor?: string;
+  /** Overrides the accent color derived from the harmony */
   accentColor?: string;
   neutralColor?: string;
+  /** Generates a dark theme: brand colors are lifted and desaturated, surfaces lighten with elevation */
   isDark?: boolean;
+  /**
+   * Scheme deriving the secondary and accent colors by OKLCH hue rotation. Without it the accent
+   * is the HSL complement of the base and the secondary is the primary's 700 shade.
+   */
+  harmony?: HarmonyScheme;
+  /** How the semantic state colors are chosen, defaults to `standard` */
+  semanticMode?: SemanticMode;
+  /** Overrides individual semantic state colors */
+  semantic?: Partial<Record<SemanticRole, string>>;
+  /** Shade generation options for the primary, secondary, accent and neutral scales */
+  depth?: ColorDepthOptions;
 }
 
+/** WCAG contrast of each text role against the surfaces it sits on */
+const TEXT_CONTRAST = {
+  /** Minimum; the darkest (or lightest) neutral shade is kept when it passes */
+  primary: 7,
+  secondary: 5.5,
+  disabled: 3,
+};
+
+/** White overlay opacity per elevation level, following Material's dark theme */
+const ELEVATION_OVERLAYS = [0, 0.05, 0.07, 0.08, 0.09, 0.11, 0.12, 0.14, 0.15, 0.16];
+
 export class ThemeGenerator {
+  /**
+   * Generates a runtime theme that can be served by ThemeProvider
+   * @param options - Theme generation options
+   * @returns Theme with flat colors and the full palette
+   */
   static generateTheme(options: ThemeOptions): Theme {
+    return createTheme(options.name ?? 'generated', this.generatePalette(options));
+  }
+
+  /**
+   * Generates a light and a dark theme from the same options
+   * @param options - Theme generation options; `isDark` is ignored
+   * @returns Light and dark themes named `<name>-light` and `<name>-dark`
+   */
+  static generateThemePair(options: ThemeOptions): { light: Theme; dark: Theme } {
+    const name = options.name ?? 'generated';
+    return {
+      light: this.generateTheme({ ...options, name: `${name}-light`, isDark: false }),
+      dark: this.generateTheme({ ...options, name: `${name}-dark`, isDark: true }),
+    };
+  }
+
+  /**
+   * Lightens a dark-theme surface for an elevation level by overlaying white,
+   * as higher surfaces sit closer to the light source
+   * @param surface - Base surface hex color
+   * @param level - Elevation level, 0 for the page background
+   * @returns Surface hex color
+   */
+  static getElevationSurface(surface: string, level: number): string {
+    const overlay = ELEVATION_OVERLAYS[Math.min(Math.max(0, Math.round(level)), ELEVATION_OVERLAYS.length - 1)];
+    const { r, g, b } = ColorConverter.hexToRgb(surface);
+    return ColorConverter.rgbToHex(
+      r + (255 - r) * overlay,
+      g + (255 - g) * overlay,
+      b + (255 - b) * overlay
+    );
+  }
+
+  /**
+   * Lifts and desaturates a brand color so it does not vibrate on dark surfaces
+   * @param color - Hex color
+   * @returns Hex color for use on a dark theme
+   */
+  static adaptForDark(color: string): string {
+    const { l, c, h } = ColorConverter.hexToOklch(color);
+    return ColorConverter.oklchToHex({
+      l: Math.min(0.82, Math.max(0.68, l + 0.08)),
+      c: Math.min(c * 0.8, 0.16),
+      h,
+    });
+  }
+
+  /**
+   * Generates the page background of a dark theme: near-black, tinted with the neutral hue
+   * @param neutral - Neutral hex color
+   * @returns Surface hex color
+   */
+  static getDarkSurface(neutral: string): string {
+    const { c, h } = ColorConverter.hexToOklch(neutral);
+    return ColorConverter.oklchToHex({ l: 0.21, c: Math.min(c, 0.02), h });
+  }
+
+  /**
+   * Generates the scale-based palette for a theme
+   * @param options - Theme generation options
+   * @returns Palette of color depths, semantic colors, backgrounds and text colors
+   */
+  static generatePalette(options: ThemeOptions): ThemePalette {
+    const isDark = Boolean(options.isDark);
+    const adapt = (color: string) => (isDark ? this.adaptForDark(color) : color);
     const base = this.resolveColor(options.baseColor);
-    const accent = this.resolveColor(options.accentColor || this.generateComplementary(base));
+    const harmony = options.harmony ? HarmonyGenerator.themeColors(base, options.harmony) : null;
+    const accent = adapt(this.resolveColor(options.accentColor || harmony?.accent || this.generateComplementary(base)));
     const neutral = this.resolveColor(options.neutralColor || '#808080');
     
-    const primaryDepth = ColorDepthGenerator.generateColorDepth(base);
-    const accentDepth = ColorDepthGenerator.generateColorDepth(accent);
-    const neutralDepth = ColorDepthGenerator.generateColorDepth(neutral);
+    const primaryDepth = ColorDepthGenerator.generateColorDepth(adapt(base), options.depth);
+    const explicitSecondary = options.secondaryColor ? this.resolveColor(options.secondaryColor) : harmony?.secondary;
+    // Without a harmony the secondary is a shade of the primary, further from the background
+    const secondary = explicitSecondary ? adapt(explicitSecondary) : primaryDepth[isDark ? 300 : 700];
+    const secondaryDepth = ColorDepthGenerator.generateColorDepth(secondary, options.depth);
+    const accentDepth = ColorDepthGenerator.generateColorDepth(accent, options.depth);
+    const neutralDepth = ColorDepthGenerator.generateColorDepth(neutral, options.depth);
+    const background = isDark ? this.getDarkSurface(neutral) : neutralDepth[50];
+    const elevated = isDark ? this.getElevationSurface(background, 2) : neutralDepth[200];
+    const semantic = this.resolveSemanticColors(base, options);
+    // Keeps primary text on the neutral scale, moving to another step only if the preferred one misses the target
+    const textColor = (preferred: string, wcag: number) =>
+      ContrastSolver.solve(background, { color: preferred, candidates: Object.values(neutralDepth), target: { wcag } }).color;
+    // Secondary and disabled text sit at fixed contrasts, so the hierarchy reads the same in light and dark themes.
+    // They are solved against the elevated surface, the one closest to the text, so every surface meets the target.
+    const tunedText = (wcag: number) => ContrastSolver.solve(elevated, { color: elevated, target: { wcag } }).color;
     
     return {
       primary: primaryDepth,
+      secondary: secondaryDepth,
       accent: accentDepth,
       neutral: neutralDepth,
       semantic: {
-        success: ColorDepthGenerator.generateSemanticColor('#00C853'),
-        warning: ColorDepthGenerator.generateSemanticColor('#FFD600'),
-        error: ColorDepthGenerator.generateSemanticColor('#FF1744'),
-        info: ColorDepthGenerator.generateSemanticColor('#2196F3'),
+        success: ColorDepthGenerator.generateSemanticColor(semantic.success, isDark),
+        warning: ColorDepthGenerator.generateSemanticColor(semantic.warning, isDark),
+        error: ColorDepthGenerator.generateSemanticColor(semantic.error, isDark),
+        info: ColorDepthGenerator.generateSemanticColor(semantic.info, isDark),
       },
       background: {
-        default: options.isDark ? neutralDepth[900] : neutralDepth[50],
-        paper: options.isDark ? neutralDepth[800] : neutralDepth[100],
-        elevated: options.isDark ? neutralDepth[700] : neutralDepth[200],
+        default: background,
+        paper: isDark ? this.getElevationSurface(background, 1) : neutralDepth[100],
+        elevated,
       },
       text: {
-        primary: options.isDark ? neutralDepth[50] : neutralDepth[900],
-        secondary: options.isDark ? neutralDepth[100] : neutralDepth[800],
-        disabled: options.isDark ? neutralDepth[200] : neutralDepth[700],
-        inverse: options.isDark ? neutralDepth[900] : neutralDepth[50],
+        primary: textColor(isDark ? neutralDepth[50] : neutralDepth[900], TEXT_CONTRAST.primary),
+        secondary: tunedText(TEXT_CONTRAST.secondary),
+        disabled: tunedText(TEXT_CONTRAST.disabled),
+        inverse: background,
       },
     };
   }
 
-  private static resolveColor(input: string): string {
-    if (input.startsWith('#')) {
-      return input;
+  /**
+   * Resolves a CSS color, color word or color phrase to a hex color
+   * @param input - Any CSS color (e.g., "#5E81AC", "oklch(60% 0.1 250)"), color name, forgiving small
+   * typos (e.g., "navy", "dark slate blue"), or phrase (e.g., "pastel pink, a bit warmer")
+   * @returns Hex color string
+   * @throws If the input is neither a valid CSS color, a known color word nor a color phrase
+   */
+  static resolveColor(input: string): string {
+    const phrase = parseColorPhrase(input);
+    if (!phrase.ok) {
+      throw new Error(`Unable to resolve color: ${input} (${phrase.error.reason})`);
     }
     
-    const wordColor = findColorByWord(input);
-    if (!wordColor) {
-      throw new Error(`Unable to resolve color: ${input}`);
+    return phrase.hex;
+  }
+
+  /**
+   * Picks the semantic state colors from the mode and overrides
+   * @private
+   */
+  private static resolveSemanticColors(base: string, options: ThemeOptions): Record<SemanticRole, string> {
+    const colors = options.semanticMode === 'harmonized'
+      ? SemanticColorGenerator.harmonize(base, options.isDark)
+      : SemanticColorGenerator.standard(options.isDark);
+
+    for (const [role, color] of Object.entries(options.semantic ?? {}) as [SemanticRole, string | undefined][]) {
+      if (color) colors[role] = this.resolveColor(color);
     }
-    
-    return wordColor;
+    return colors;
   }
 
   private static generateComplementary(hex: string): string {
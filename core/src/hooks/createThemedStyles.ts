@@ -0,0 +1,40 @@
+// core/hooks/createThemedStyles.ts
+import { Theme, getThemePalette } from '../themes';
+import { ThemePalette } from '../types/color';
+import { useThemeSelector } from './useThemeSelector';
+
+const selectTheme = ({ theme }: { theme: Theme }) => theme;
+
+/**
+ * @function createThemedStyles
+ * @description Creates a hook returning styles built from the current theme. Styles are built
+ * once per theme and shared by every component using the hook, which re-renders only when the
+ * theme changes. Define it at module level:
+ *
+ * ```ts
+ * const useStyles = createThemedStyles(theme => StyleSheet.create({
+ *   card: { backgroundColor: theme.colors.base200, borderColor: theme.colors.base300 },
+ * }));
+ * ```
+ *
+ * The factory can return React Native `StyleSheet.create` styles or plain web style objects.
+ * @param {(theme: Theme, palette: ThemePalette) => T} factory - Builds the styles of a theme
+ * @returns {() => T} Hook returning the styles of the current theme
+ */
+export function createThemedStyles<T>(factory: (theme: Theme, palette: ThemePalette) => T): () => T {
+  // Weak, so themes that are no longer used, e.g. the frames of a transition, can be collected
+  const cache = new WeakMap<Theme, T>();
+
+  const getStyles = (theme: Theme): T => {
+    let styles = cache.get(theme);
+    if (styles === undefined) {
+      styles = factory(theme, getThemePalette(theme));
+      cache.set(theme, styles);
+    }
+    return styles;
+  };
+
+  return function useThemedStyles(): T {
+    return getStyles(useThemeSelector(selectTheme));
+  };
+}
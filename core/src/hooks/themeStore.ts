@@ -0,0 +1,39 @@
+// core/hooks/themeStore.ts
+
+/**
+ * @interface ThemeStore
+ * @description Holds a provider's current value outside of React context, so that hooks can
+ * subscribe to the parts they read instead of re-rendering on every context update
+ */
+export interface ThemeStore<T> {
+  get: () => T;
+  /** Replaces the value and notifies subscribers when it changed */
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * @function createThemeStore
+ * @description Creates a store for a provider value
+ * @param {T} initial - Value until the first `set`
+ * @returns {ThemeStore<T>} The store
+ */
+export function createThemeStore<T>(initial: T): ThemeStore<T> {
+  let value = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => value,
+    set: next => {
+      if (Object.is(next, value)) return;
+      value = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,65 @@
+// core/hooks/useColorScheme.ts
+import { useSyncExternalStore } from 'react';
+
+export type ColorScheme = 'light' | 'dark';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Loads React Native's Appearance module, if available.
+ * @private
+ */
+const getAppearance = () => {
+  try {
+    return require('react-native').Appearance ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const getServerColorScheme = (): ColorScheme => 'light';
+
+const hasMatchMedia = () => typeof window !== 'undefined' && typeof window.matchMedia === 'function';
+
+/**
+ * @function getSystemColorScheme
+ * @description Reads the OS color scheme through `matchMedia` on web and `Appearance` on React Native
+ * @returns {ColorScheme} The current system color scheme, `'light'` when it cannot be determined
+ */
+export function getSystemColorScheme(): ColorScheme {
+  if (hasMatchMedia()) {
+    return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+  }
+
+  return getAppearance()?.getColorScheme() === 'dark' ? 'dark' : 'light';
+}
+
+/**
+ * @function subscribeToColorScheme
+ * @description Calls the listener whenever the OS color scheme changes
+ * @param {(scheme: ColorScheme) => void} listener - Change listener
+ * @returns {() => void} Unsubscribe function
+ */
+export function subscribeToColorScheme(listener: (scheme: ColorScheme) => void): () => void {
+  if (hasMatchMedia()) {
+    const query = window.matchMedia(DARK_QUERY);
+    const onChange = (event: MediaQueryListEvent) => listener(event.matches ? 'dark' : 'light');
+
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }
+
+  const subscription = getAppearance()?.addChangeListener(
+    ({ colorScheme }: { colorScheme?: string | null }) => listener(colorScheme === 'dark' ? 'dark' : 'light')
+  );
+  return () => subscription?.remove();
+}
+
+/**
+ * Hook returning the live OS color scheme.
+ * @returns The current system color scheme, updated when the OS setting changes. Server rendering
+ * and hydration use `'light'`, so the hydrated markup matches the server's.
+ */
+export function useColorScheme(): ColorScheme {
+  return useSyncExternalStore(subscribeToColorScheme, getSystemColorScheme, getServerColorScheme);
+}
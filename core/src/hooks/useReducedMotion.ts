@@ -0,0 +1,73 @@
+// core/hooks/useReducedMotion.ts
+import { useEffect, useState } from 'react';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Loads React Native's AccessibilityInfo module, if available.
+ * @private
+ */
+const getAccessibilityInfo = () => {
+  try {
+    return require('react-native').AccessibilityInfo ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const hasMatchMedia = () => typeof window !== 'undefined' && typeof window.matchMedia === 'function';
+
+/**
+ * @function getReducedMotion
+ * @description Reads the OS reduced-motion setting through `matchMedia` on web. React Native only
+ * reports it asynchronously, through subscribeToReducedMotion.
+ * @returns {boolean} Whether the user asked for reduced motion, false when it cannot be determined
+ */
+export function getReducedMotion(): boolean {
+  return hasMatchMedia() && window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+/**
+ * @function subscribeToReducedMotion
+ * @description Calls the listener with the reduced-motion setting whenever it changes; on React
+ * Native it is also called once with the current setting
+ * @param {(reduced: boolean) => void} listener - Change listener
+ * @returns {() => void} Unsubscribe function
+ */
+export function subscribeToReducedMotion(listener: (reduced: boolean) => void): () => void {
+  if (hasMatchMedia()) {
+    const query = window.matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = (event: MediaQueryListEvent) => listener(event.matches);
+
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }
+
+  const accessibilityInfo = getAccessibilityInfo();
+  if (!accessibilityInfo) return () => undefined;
+
+  let active = true;
+  accessibilityInfo.isReduceMotionEnabled?.().then((reduced: boolean) => {
+    if (active) listener(reduced);
+  });
+  const subscription = accessibilityInfo.addEventListener?.('reduceMotionChanged', listener);
+  return () => {
+    active = false;
+    subscription?.remove();
+  };
+}
+
+/**
+ * Hook returning the live OS reduced-motion setting.
+ * @returns Whether the user asked for reduced motion, updated when the setting changes.
+ */
+export function useReducedMotion(): boolean {
+  const [reduced, setReduced] = useState(getReducedMotion);
+
+  useEffect(() => {
+    setReduced(getReducedMotion());
+    return subscribeToReducedMotion(setReduced);
+  }, []);
+
+  return reduced;
+}
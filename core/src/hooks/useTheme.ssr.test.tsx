@@ -0,0 +1,49 @@
+import { describe, expect, test } from 'bun:test';
+import { renderToString } from 'react-dom/server';
+import { ThemeProvider, useTheme } from './useTheme';
+import { createMemoryStorage } from '../storage';
+import { getThemeFromCookies } from '../ssr';
+
+function Probe() {
+  const { theme, themeName, preference } = useTheme();
+  return <p>{`${preference} ${themeName} ${theme.colors.primary}`}</p>;
+}
+
+describe('ThemeProvider on the server', () => {
+  test('renders the default theme without an initial theme', () => {
+    const html = renderToString(
+      <ThemeProvider storage={createMemoryStorage({ '@glacier-ui:theme': 'accessible' })}>
+        <Probe />
+      </ThemeProvider>
+    );
+    expect(html).toBe('<p>nord nord #5E81AC</p>');
+  });
+
+  test('renders the initial theme resolved from cookies', () => {
+    const initialTheme = getThemeFromCookies('other=1; %40glacier-ui%3Atheme=accessible');
+    const html = renderToString(
+      <ThemeProvider storage={createMemoryStorage()} initialTheme={initialTheme}>
+        <Probe />
+      </ThemeProvider>
+    );
+    expect(html).toBe('<p>accessible accessible #0052CC</p>');
+  });
+
+  test('resolves the system preference with the light theme', () => {
+    const html = renderToString(
+      <ThemeProvider storage={createMemoryStorage()} initialTheme="system" lightTheme="accessible">
+        <Probe />
+      </ThemeProvider>
+    );
+    expect(html).toBe('<p>system accessible #0052CC</p>');
+  });
+
+  test('falls back to the default theme for unknown initial themes', () => {
+    const html = renderToString(
+      <ThemeProvider storage={createMemoryStorage()} initialTheme="missing" defaultTheme="accessible">
+        <Probe />
+      </ThemeProvider>
+    );
+    expect(html).toBe('<p>accessible accessible #0052CC</p>');
+  });
+});
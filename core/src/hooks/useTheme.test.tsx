@@ -0,0 +1,291 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from 'bun:test';
+import { GlobalRegistrator } from '@happy-dom/global-registrator';
+import { act, useEffect, type ReactElement } from 'react';
+import type { Root } from 'react-dom/client';
+import { renderToString } from 'react-dom/server';
+import { ThemeProvider, useTheme, type ThemeOverride } from './useTheme';
+import { Theme, extendTheme } from '../themes';
+import { ThemeStorage, createMemoryStorage } from '../storage';
+
+let createRoot: typeof import('react-dom/client').createRoot;
+let hydrateRoot: typeof import('react-dom/client').hydrateRoot;
+let root: Root | null = null;
+
+beforeAll(async () => {
+  GlobalRegistrator.register();
+  (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  // Loaded once the DOM exists, as react-dom checks for it on load
+  ({ createRoot, hydrateRoot } = await import('react-dom/client'));
+});
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+});
+
+afterAll(async () => {
+  await GlobalRegistrator.unregister();
+});
+
+const render = (element: ReactElement): HTMLElement => {
+  const container = document.createElement('div');
+  root = createRoot(container);
+  act(() => root!.render(element));
+  return container;
+};
+
+/** Prints the theme name and primary color, and counts its mounts */
+function Probe({ mounts }: { mounts?: { count: number } }) {
+  const { theme } = useTheme();
+  useEffect(() => {
+    if (mounts) mounts.count++;
+  }, [mounts]);
+  return <span>{`${theme.name} ${theme.colors.primary}`}</span>;
+}
+
+describe('nested ThemeProvider', () => {
+  test('keeps its subtree mounted when the override is added or removed', () => {
+    const mounts = { count: 0 };
+    const storage = createMemoryStorage();
+    const tree = (override?: ThemeOverride) => (
+      <ThemeProvider storage={storage}>
+        <ThemeProvider override={override}>
+          <Probe mounts={mounts} />
+        </ThemeProvider>
+      </ThemeProvider>
+    );
+
+    const container = render(tree());
+    expect(container.textContent).toBe('nord #5E81AC');
+
+    act(() => root!.render(tree({ colors: { primary: '#FF0000' } })));
+    expect(container.textContent).toBe('nord #FF0000');
+
+    act(() => root!.render(tree()));
+    expect(container.textContent).toBe('nord #5E81AC');
+    expect(mounts.count).toBe(1);
+  });
+
+  test('shares the outer selection instead of subscribing to its own storage', () => {
+    let subscriptions = 0;
+    const spy: ThemeStorage = {
+      ...createMemoryStorage({ '@glacier-ui:theme': 'accessible' }),
+      subscribe: () => {
+        subscriptions++;
+        return () => undefined;
+      },
+    };
+
+    const container = render(
+      <ThemeProvider storage={createMemoryStorage()}>
+        <ThemeProvider storage={spy}>
+          <Probe />
+        </ThemeProvider>
+      </ThemeProvider>
+    );
+    expect(container.textContent).toBe('nord #5E81AC');
+    expect(subscriptions).toBe(0);
+  });
+
+  test('derives its override once per theme change while the outer provider interpolates', async () => {
+    let derivations = 0;
+    const override = (theme: Theme) => {
+      derivations++;
+      return extendTheme(theme, { colors: { accent: '#FF0000' } });
+    };
+    let setTheme: (name: 'accessible') => void = () => undefined;
+    function Switcher() {
+      setTheme = useTheme().setTheme;
+      return null;
+    }
+
+    const container = render(
+      <ThemeProvider storage={createMemoryStorage()} transition={{ duration: 60, strategy: 'interpolate' }}>
+        <Switcher />
+        <ThemeProvider override={override}>
+          <Probe />
+        </ThemeProvider>
+      </ThemeProvider>
+    );
+    expect(derivations).toBe(1);
+
+    await act(async () => {
+      setTheme('accessible');
+      await new Promise(resolve => setTimeout(resolve, 150));
+    });
+
+    expect(container.textContent).toBe('accessible #0052CC');
+    expect(derivations).toBe(2);
+  });
+});
+
+describe('ThemeProvider with stored themes', () => {
+  const stored = () => createMemoryStorage({ '@glacier-ui:theme': 'accessible' });
+
+  test('reads a synchronous storage in the first client render', async () => {
+    const rendered: string[] = [];
+    function Recorder() {
+      rendered.push(useTheme().themeName);
+      return null;
+    }
+
+    // Async, as the provider also loads the storage after mounting
+    await act(async () => {
+      root = createRoot(document.createElement('div'));
+      root.render(
+        <ThemeProvider storage={stored()}>
+          <Recorder />
+        </ThemeProvider>
+      );
+    });
+    expect(rendered[0]).toBe('accessible');
+  });
+
+  test('hydrates server markup without a mismatch, then applies the stored theme', async () => {
+    const tree = (
+      <ThemeProvider storage={stored()}>
+        <Probe />
+      </ThemeProvider>
+    );
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(tree);
+    expect(container.textContent).toBe('nord #5E81AC');
+
+    const errors: unknown[] = [];
+    const consoleError = console.error;
+    console.error = (...args: unknown[]) => errors.push(args);
+    try {
+      await act(async () => {
+        root = hydrateRoot(container, tree, { onRecoverableError: error => errors.push(error) });
+      });
+    } finally {
+      console.error = consoleError;
+    }
+
+    expect(errors).toEqual([]);
+    expect(container.textContent).toBe('accessible #0052CC');
+  });
+
+  test('hydrates markup rendered with the initial theme', () => {
+    const tree = (
+      <ThemeProvider storage={stored()} initialTheme="accessible">
+        <Probe />
+      </ThemeProvider>
+    );
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(tree);
+    expect(container.textContent).toBe('accessible #0052CC');
+
+    const errors: unknown[] = [];
+    act(() => {
+      root = hydrateRoot(container, tree, { onRecoverableError: error => errors.push(error) });
+    });
+    expect(errors).toEqual([]);
+    expect(container.textContent).toBe('accessible #0052CC');
+  });
+});
+
+describe('ThemeProvider following the system color scheme', () => {
+  test('hydrates with the server scheme, then switches to a dark OS scheme', () => {
+    const matchMedia = window.matchMedia;
+    window.matchMedia = ((query: string) => ({
+      matches: query.includes('dark'),
+      media: query,
+      addEventListener: () => undefined,
+      removeEventListener: () => undefined,
+    })) as unknown as typeof window.matchMedia;
+
+    try {
+      const tree = (
+        <ThemeProvider storage={createMemoryStorage()} initialTheme="system">
+          <Probe />
+        </ThemeProvider>
+      );
+      const container = document.createElement('div');
+      container.innerHTML = renderToString(tree);
+      expect(container.textContent).toBe('accessible #0052CC');
+
+      const errors: unknown[] = [];
+      const consoleError = console.error;
+      console.error = (...args: unknown[]) => errors.push(args);
+      try {
+        act(() => {
+          root = hydrateRoot(container, tree, { onRecoverableError: error => errors.push(error) });
+        });
+      } finally {
+        console.error = consoleError;
+      }
+
+      expect(errors).toEqual([]);
+      expect(container.textContent).toBe('nord #5E81AC');
+    } finally {
+      window.matchMedia = matchMedia;
+    }
+  });
+});
+
+describe('ThemeProvider transitions', () => {
+  test('keeps the inline transition of the root while transitioning custom properties', () => {
+    const css = Object.getOwnPropertyDescriptor(globalThis, 'CSS')!;
+    const registered: PropertyDefinition[] = [];
+    Object.defineProperty(globalThis, 'CSS', {
+      configurable: true,
+      value: { registerProperty: (definition: PropertyDefinition) => registered.push(definition) },
+    });
+    const html = document.documentElement;
+    html.style.setProperty('transition', 'opacity 1s');
+
+    try {
+      const tree = (transition: boolean) => (
+        <ThemeProvider
+          storage={createMemoryStorage()}
+          cssVariables
+          transition={transition && { duration: 100, strategy: 'css' }}
+        >
+          <Probe />
+        </ThemeProvider>
+      );
+      render(tree(true));
+      expect(html.style.getPropertyValue('transition')).toStartWith('opacity 1s, --');
+      expect(registered.map(definition => definition.initialValue)).toContain('#5E81AC');
+      expect(registered.map(definition => definition.initialValue)).not.toContain('transparent');
+
+      act(() => root!.render(tree(false)));
+      expect(html.style.getPropertyValue('transition')).toBe('opacity 1s');
+
+      act(() => root!.unmount());
+      render(tree(true));
+      act(() => root!.unmount());
+      root = null;
+      expect(html.style.getPropertyValue('transition')).toBe('opacity 1s');
+    } finally {
+      Object.defineProperty(globalThis, 'CSS', css);
+      html.style.removeProperty('transition');
+    }
+  });
+
+  test('does not render an earlier interpolated theme when interpolation is turned back on', async () => {
+    let setTheme: (name: 'accessible') => void = () => undefined;
+    const rendered: string[] = [];
+    function Recorder() {
+      const context = useTheme();
+      setTheme = context.setTheme;
+      rendered.push(context.theme.name);
+      return null;
+    }
+    const tree = (transition: boolean) => (
+      <ThemeProvider storage={createMemoryStorage()} transition={transition && { strategy: 'interpolate' }}>
+        <Recorder />
+      </ThemeProvider>
+    );
+
+    render(tree(true));
+    act(() => root!.render(tree(false)));
+    await act(async () => setTheme('accessible'));
+    rendered.length = 0;
+
+    act(() => root!.render(tree(true)));
+    expect(rendered.length).toBeGreaterThan(0);
+    expect(rendered.every(name => name === 'accessible')).toBe(true);
+  });
+});
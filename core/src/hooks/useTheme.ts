@@ -5,76 +5,249 @@ import React, {
     createContext, 
     useContext, 
     useCallback,
+    useMemo,
+    useRef,
+    useLayoutEffect,
+    useSyncExternalStore,
     type ReactNode
   } from 'react';
-  import { Theme, ThemeName, themes, getTheme } from '../themes';
+  import {
+    Theme,
+    ThemeName,
+    ThemeOverrides,
+    extendTheme,
+    getTheme,
+    getThemePalette,
+    hasTheme,
+    subscribeToThemes
+  } from '../themes';
+  import { ThemePalette } from '../types/color';
+  import { useColorScheme } from './useColorScheme';
+  import { ThemeTransitionOptions, useThemeTransition } from './useThemeTransition';
+  import { ThemeStore, createThemeStore } from './themeStore';
+  import { ThemeStorage, getDefaultStorage } from '../storage';
+  import { CssVariableOptions, themeToCssVariables } from '../exporters/css';
+
+  /**
+   * @interface DocumentThemeOptions
+   * @description How the active theme is applied to `document.documentElement`
+   */
+  export interface DocumentThemeOptions extends CssVariableOptions {
+    /** Attribute set to the theme name, defaults to `data-theme` */
+    attribute?: string;
+  }
+
+  /** A theme name, or `'system'` to follow the OS color scheme */
+  export type ThemePreference = ThemeName | 'system';
   
-  interface ThemeContextValue {
+  export interface ThemeContextValue {
     theme: Theme;
+    /** Scale-based palette of the current theme */
+    palette: ThemePalette;
+    /** Name of the theme in use, with `'system'` resolved */
     themeName: ThemeName;
-    setTheme: (name: ThemeName) => void;
+    /** Theme the user picked, possibly `'system'` */
+    preference: ThemePreference;
+    setTheme: (name: ThemePreference) => void;
     isValidThemeName: (name: string) => name is ThemeName;
   }
   
-  /**
-   * @function isValidThemeName
-   * @description Type guard for theme name validation
-   * @param {string} name - theme name to validate
-   * @returns {name is ThemeName} whether the theme name is valid
-   */
-  const isValidThemeName = (name: string): name is ThemeName => {
-    return name in themes;
-  };
-  
   const defaultContextValue: ThemeContextValue = {
     theme: getTheme('nord'),
+    palette: getThemePalette(getTheme('nord')),
     themeName: 'nord',
+    preference: 'nord',
     setTheme: () => undefined,
-    isValidThemeName
+    isValidThemeName: hasTheme
   };
   
   export const ThemeContext = createContext<ThemeContextValue>(defaultContextValue);
   ThemeContext.displayName = 'ThemeContext';
+
+  /** Store mirroring the nearest ThemeContext value, read by selector hooks such as useThemeColor */
+  export const ThemeStoreContext = createContext<ThemeStore<ThemeContextValue>>(createThemeStore(defaultContextValue));
+  ThemeStoreContext.displayName = 'ThemeStoreContext';
+
+  /**
+   * Theme selection a root provider shares with the providers nested in it.
+   * @private
+   */
+  interface ThemeSelection {
+    /** Theme selected, with overrides, before any animation */
+    theme: Theme;
+    /** Transition nested providers run themselves, set while the root interpolates */
+    interpolation?: ThemeTransitionOptions;
+  }
+
+  const ThemeSelectionContext = createContext<ThemeSelection | null>(null);
+  ThemeSelectionContext.displayName = 'ThemeSelectionContext';
+
+  // Layout effects warn during server rendering, where the store never changes anyway
+  const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? useLayoutEffect : useEffect;
+
+  /**
+   * Provides a context value through both ThemeContext and a store that follows it, along with
+   * the selection nested providers start from.
+   * @private
+   */
+  const useThemeValueProvider = (
+    value: ThemeContextValue,
+    selection: ThemeSelection,
+    children: ReactNode
+  ): JSX.Element => {
+    const [store] = useState(() => createThemeStore(value));
+    // Subscribers re-render before paint, so they never show a stale theme
+    useIsomorphicLayoutEffect(() => store.set(value), [store, value]);
+
+    return React.createElement(
+      ThemeContext.Provider,
+      { value },
+      React.createElement(
+        ThemeStoreContext.Provider,
+        { value: store },
+        React.createElement(ThemeSelectionContext.Provider, { value: selection }, children)
+      )
+    );
+  };
   
   interface ThemeProviderProps {
     children: ReactNode;
-    defaultTheme?: ThemeName;
+    defaultTheme?: ThemePreference;
     storageKey?: string;
+    /** Theme used in `'system'` mode when the OS prefers a light scheme */
+    lightTheme?: ThemeName;
+    /** Theme used in `'system'` mode when the OS prefers a dark scheme */
+    darkTheme?: ThemeName;
+    /** Additional themes available to this provider, e.g. brand themes */
+    themes?: Theme[];
+    /** Where the theme preference is persisted, defaults to localStorage on web and AsyncStorage elsewhere */
+    storage?: ThemeStorage;
+    /**
+     * Preference resolved on the server, e.g. with `getThemeFromCookies`, used for the first render.
+     * Without it, server rendering and hydration use `defaultTheme`, and the stored theme follows
+     * right after hydration; client-only renders read a synchronous storage at once.
+     */
+    initialTheme?: ThemePreference | string | null;
+    /** Applies the theme as CSS custom properties and a theme attribute on `<html>` */
+    cssVariables?: boolean | DocumentThemeOptions;
+    /**
+     * Changes the theme for this subtree, as overrides for `extendTheme` or a function of the theme.
+     * A provider nested in another inherits the outer theme and only applies the override.
+     * Memoize it, as a new override re-derives the theme.
+     */
+    override?: ThemeOverride;
+    /**
+     * Animates theme changes; `true` uses a 300ms ease-in-out. Skipped when the user prefers
+     * reduced motion. Ignored on nested providers, which follow the outer provider's animation.
+     */
+    transition?: boolean | ThemeTransitionOptions;
   }
+
+  /** Overrides for `extendTheme`, or a function deriving the theme, e.g. with `createThemeVariant` */
+  export type ThemeOverride = ThemeOverrides | ((theme: Theme) => Theme);
+
+  /**
+   * Applies a provider's override to a theme.
+   * @private
+   */
+  const applyOverride = (theme: Theme, override?: ThemeOverride): Theme => {
+    if (!override) return theme;
+    return typeof override === 'function' ? override(theme) : extendTheme(theme, override);
+  };
+  
+  const subscribeToNothing = () => () => undefined;
+
+  /**
+   * Reads the stored preference when the storage answers synchronously.
+   * @private
+   */
+  const readStoredThemeSync = (storage: ThemeStorage, storageKey: string): string | null => {
+    try {
+      const stored = storage.getItem(storageKey);
+      return typeof stored === 'string' ? stored : null;
+    } catch {
+      return null;
+    }
+  };
   
 /**
  * @function ThemeProvider
  * @description Provides a theme context to its children, allowing them to access the current theme and change it.
+ * Nested in another ThemeProvider, it shares the outer theme selection and animation and only applies its
+ * `override` to its subtree; the storage, theme and CSS props of a nested provider are ignored.
  * @param {ThemeProviderProps} props - The properties object.
  * @param {ReactNode} props.children - The child components that will have access to the theme context.
- * @param {ThemeName} [props.defaultTheme='nord'] - The default theme to use if no theme is stored.
- * @param {string} [props.storageKey='@glacier-ui:theme'] - The key used to store the theme in local or async storage.
+ * @param {ThemePreference} [props.defaultTheme='nord'] - The default theme to use if no theme is stored.
+ * @param {string} [props.storageKey='@glacier-ui:theme'] - The key used to store the theme in storage.
+ * @param {Theme[]} [props.themes] - Themes available in addition to the registered ones.
+ * @param {ThemeName} [props.lightTheme='accessible'] - Theme for a light system color scheme.
+ * @param {ThemeName} [props.darkTheme='nord'] - Theme for a dark system color scheme.
+ * @param {ThemeStorage} [props.storage] - Storage adapter used to persist the theme.
+ * @param {string} [props.initialTheme] - Server-resolved preference used for the first render and hydration.
+ * @param {boolean | DocumentThemeOptions} [props.cssVariables=false] - Apply the theme as CSS variables on the document.
+ * @param {ThemeOverride} [props.override] - Changes applied to the theme for this subtree.
+ * @param {boolean | ThemeTransitionOptions} [props.transition=false] - Animate theme changes.
  * @returns {JSX.Element} A React element that provides the theme context to its children.
  */
   export function ThemeProvider({
     children,
     defaultTheme = 'nord',
-    storageKey = '@glacier-ui:theme'
+    storageKey = '@glacier-ui:theme',
+    themes: providedThemes,
+    lightTheme = 'accessible',
+    darkTheme = 'nord',
+    storage: providedStorage,
+    initialTheme,
+    cssVariables = false,
+    override,
+    transition
   }: ThemeProviderProps): JSX.Element {
-    const [themeName, setThemeName] = useState<ThemeName>(defaultTheme);
+    const parent = useContext(ThemeContext);
+    const parentSelection = useContext(ThemeSelectionContext);
+    // Decided from context alone, so adding or removing props never remounts the subtree
+    const nested = parentSelection !== null;
+
+    const storage = useMemo(() => providedStorage ?? getDefaultStorage(), [providedStorage]);
+    // Keeps names that are not registered yet, so persisted custom themes survive a reload
+    const [chosenName, setThemeName] = useState<string | null>(initialTheme || null);
+    // True on the server and while hydrating, where reading the storage would mismatch the server markup
+    const hydrating = useSyncExternalStore(subscribeToNothing, () => false, () => true);
+    const storedName = useMemo(
+      () => (nested || hydrating ? null : readStoredThemeSync(storage, storageKey)),
+      [nested, hydrating, storage, storageKey]
+    );
+    const requestedName = chosenName ?? storedName ?? defaultTheme;
+    const [, setRegistryVersion] = useState(0);
+    const colorScheme = useColorScheme();
+    // Set once the theme transition is known; wraps theme changes the user can see happen
+    const runTransition = useRef((update: () => void) => update());
+
+    useEffect(() => {
+      if (nested) return;
+      return subscribeToThemes(() => setRegistryVersion(version => version + 1));
+    }, [nested]);
+
+    const localThemes = useMemo(
+      () => new Map((providedThemes ?? []).map(theme => [theme.name, theme])),
+      [providedThemes]
+    );
+
+    const isValidThemeName = useCallback((name: string): name is ThemeName => {
+      return localThemes.has(name) || hasTheme(name);
+    }, [localThemes]);
   
     useEffect(() => {
+      if (nested) return;
+
     /**
      * Loads the theme from storage and sets it to the state if it's a valid theme name.
      * @private
      */
       const loadTheme = async () => {
         try {
-          let stored: string | null = null;
-          
-          if (typeof window !== 'undefined' && window.localStorage) {
-            stored = localStorage.getItem(storageKey);
-          } else {
-            const AsyncStorage = require('@react-native-async-storage/async-storage').default;
-            stored = await AsyncStorage.getItem(storageKey);
-          }
+          const stored = await storage.getItem(storageKey);
           
-          if (stored && isValidThemeName(stored)) {
+          if (stored) {
             setThemeName(stored);
           }
         } catch (error) {
@@ -83,30 +256,86 @@ import React, {
       };
   
       loadTheme();
-    }, [storageKey]);
+
+      return storage.subscribe?.(storageKey, value => {
+        if (value) runTransition.current(() => setThemeName(value));
+      });
+    }, [nested, storage, storageKey]);
   
-    const setTheme = useCallback(async (name: ThemeName) => {
+    const setTheme = useCallback(async (name: ThemePreference) => {
       try {
-        if (typeof window !== 'undefined' && window.localStorage) {
-          localStorage.setItem(storageKey, name);
-        } else {
-          const AsyncStorage = require('@react-native-async-storage/async-storage').default;
-          await AsyncStorage.setItem(storageKey, name);
-        }
-        setThemeName(name);
+        await storage.setItem(storageKey, name);
+        runTransition.current(() => setThemeName(name));
       } catch (error) {
         console.warn('Failed to save theme:', error);
       }
-    }, [storageKey]);
+    }, [storage, storageKey]);
   
-    const value: ThemeContextValue = {
-      theme: getTheme(themeName),
+    const resolveName = (name: string): ThemeName => {
+      const resolved = name === 'system' ? (colorScheme === 'dark' ? darkTheme : lightTheme) : name;
+      if (isValidThemeName(resolved)) return resolved;
+      return name === defaultTheme ? 'nord' : resolveName(defaultTheme);
+    };
+
+    const preference = (requestedName === 'system' || isValidThemeName(requestedName)
+      ? requestedName
+      : defaultTheme) as ThemePreference;
+    const themeName = resolveName(requestedName);
+    // Nested providers start from the outer target theme, not from the frames of its animation
+    const selectedTheme = nested ? parentSelection.theme : localThemes.get(themeName) ?? getTheme(themeName);
+    const targetTheme = useMemo(() => applyOverride(selectedTheme, override), [selectedTheme, override]);
+
+    const applyCss = !nested && Boolean(cssVariables);
+    const themeTransition = useThemeTransition(
+      targetTheme,
+      nested ? parentSelection.interpolation : transition,
+      applyCss
+    );
+    const { theme, prepareCssVariables } = themeTransition;
+    runTransition.current = themeTransition.run;
+    const palette = useMemo(() => getThemePalette(theme), [theme]);
+
+    // Nested providers interpolate their own theme only when the outer provider interpolates
+    const interpolating = themeTransition.strategy === 'interpolate';
+    const interpolation = nested ? parentSelection.interpolation : transition;
+    const selection = useMemo<ThemeSelection>(() => ({
+      theme: targetTheme,
+      interpolation: interpolating
+        ? { ...(typeof interpolation === 'object' ? interpolation : {}), strategy: 'interpolate' }
+        : undefined
+    }), [targetTheme, interpolating, interpolation]);
+
+    const cssOptions = typeof cssVariables === 'object' ? cssVariables : {};
+    const { prefix, includePalette, attribute = 'data-theme' } = cssOptions;
+    const appliedVariables = useRef<string[]>([]);
+
+    useEffect(() => {
+      if (!applyCss || typeof document === 'undefined') return;
+
+      const root = document.documentElement;
+      const variables = themeToCssVariables(theme, { prefix, includePalette });
+
+      for (const name of appliedVariables.current) {
+        if (!(name in variables)) root.style.removeProperty(name);
+      }
+      prepareCssVariables(root, variables);
+      for (const [name, value] of Object.entries(variables)) {
+        root.style.setProperty(name, value);
+      }
+      root.setAttribute(attribute, themeName);
+      appliedVariables.current = Object.keys(variables);
+    }, [applyCss, theme, themeName, prefix, includePalette, attribute, prepareCssVariables]);
+
+    const value = useMemo<ThemeContextValue>(() => (nested ? { ...parent, theme, palette } : {
+      theme,
+      palette,
       themeName,
+      preference,
       setTheme,
       isValidThemeName
-    };
+    }), [nested, parent, theme, palette, themeName, preference, setTheme, isValidThemeName]);
   
-    return React.createElement(ThemeContext.Provider, { value }, children);
+    return useThemeValueProvider(value, selection, children);
   }
   
   /**
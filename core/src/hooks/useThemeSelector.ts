@@ -0,0 +1,51 @@
+// core/hooks/useThemeSelector.ts
+import { useCallback, useContext, useRef, useSyncExternalStore } from 'react';
+import { ThemeColors } from '../themes';
+import { ThemeContextValue, ThemeStoreContext } from './useTheme';
+
+interface Selection<T> {
+  source: ThemeContextValue;
+  selector: (value: ThemeContextValue) => T;
+  value: T;
+}
+
+/**
+ * Hook reading part of the theme context. The component re-renders only when the selected value
+ * changes, not on every update of the context.
+ * @param selector - Picks the value from the context, e.g. `({ palette }) => palette.primary[700]`
+ * @param isEqual - Compares selections, defaults to `Object.is`; pass a shallow comparison when
+ * the selector builds a new object or array
+ * @returns The selected value.
+ */
+export function useThemeSelector<T>(
+  selector: (value: ThemeContextValue) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const store = useContext(ThemeStoreContext);
+  const selection = useRef<Selection<T> | null>(null);
+
+  const getSelection = useCallback((): T => {
+    const source = store.get();
+    const previous = selection.current;
+    if (previous && previous.source === source && previous.selector === selector) {
+      return previous.value;
+    }
+
+    const next = selector(source);
+    // Keeping the previous value lets React skip the re-render
+    const value = previous && isEqual(previous.value, next) ? previous.value : next;
+    selection.current = { source, selector, value };
+    return value;
+  }, [store, selector, isEqual]);
+
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+}
+
+/**
+ * Hook reading one color of the current theme, re-rendering only when that color changes.
+ * @param role - Color role, e.g. `primaryContent`
+ * @returns The color of the role in the current theme.
+ */
+export function useThemeColor(role: keyof ThemeColors): string {
+  return useThemeSelector(useCallback(({ theme }: ThemeContextValue) => theme.colors[role], [role]));
+}
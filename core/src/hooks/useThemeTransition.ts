@@ -0,0 +1,255 @@
+// core/hooks/useThemeTransition.ts
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Theme, interpolateTheme } from '../themes';
+import { ColorConverter } from '../utils/colorConverter';
+import { useReducedMotion } from './useReducedMotion';
+
+/** Easing curves available by name; they match the CSS keywords of the same name */
+export type ThemeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/**
+ * How a theme change is animated:
+ * - `view-transition`: cross-fades a snapshot of the page with the View Transitions API (web,
+ *   changes made through `setTheme` or storage)
+ * - `css`: transitions the custom properties applied by `cssVariables`; context values switch at once.
+ *   The color properties are registered with `CSS.registerProperty` for the whole document, with the
+ *   colors of the first theme as initial values
+ * - `interpolate`: re-renders with themes interpolated in OKLab every frame; works everywhere,
+ *   including React Native
+ * - `auto`: the first of these that is available
+ */
+export type ThemeTransitionStrategy = 'auto' | 'view-transition' | 'css' | 'interpolate';
+
+/**
+ * @interface ThemeTransitionOptions
+ * @description Options of the animated theme change
+ */
+export interface ThemeTransitionOptions {
+  /** Duration in milliseconds, defaults to 300 */
+  duration?: number;
+  /** Defaults to `ease-in-out`; a custom function maps progress from 0–1 to 0–1 and implies `interpolate` */
+  easing?: ThemeEasing | ((progress: number) => number);
+  /** Defaults to `auto`; a strategy that is not available falls back to `interpolate` */
+  strategy?: ThemeTransitionStrategy;
+}
+
+interface ThemeTransitionState {
+  /** Theme to render: the current theme, or an intermediate one while interpolating */
+  theme: Theme;
+  /** Strategy in use, or `none` when transitions are off or the user prefers reduced motion */
+  strategy: Exclude<ThemeTransitionStrategy, 'auto'> | 'none';
+  /** Runs a state update that changes the theme, wrapped in a view transition when that strategy is used */
+  run: (update: () => void) => void;
+  /** Sets up the transition of custom properties about to change when the `css` strategy is used */
+  prepareCssVariables: (root: HTMLElement, variables: Record<string, string>) => void;
+}
+
+type ViewTransitionDocument = {
+  startViewTransition(update: () => Promise<void>): { ready: Promise<void> };
+};
+
+const EASINGS: Record<ThemeEasing, (progress: number) => number> = {
+  linear: t => t,
+  'ease-in': t => t * t * t,
+  'ease-out': t => 1 - (1 - t) ** 3,
+  'ease-in-out': t => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2),
+};
+
+const DEFAULT_DURATION = 300;
+/** Longest wait for React to commit inside a view transition, for updates that change nothing */
+const COMMIT_TIMEOUT = 100;
+
+/** Custom properties registered as colors, which the browser can then transition */
+const registeredProperties = new Set<string>();
+
+const getViewTransitionDocument = (): ViewTransitionDocument | null =>
+  typeof document !== 'undefined' && typeof (document as Partial<ViewTransitionDocument>).startViewTransition === 'function'
+    ? (document as unknown as ViewTransitionDocument)
+    : null;
+
+const supportsCssTransitions = () => typeof CSS !== 'undefined' && typeof CSS.registerProperty === 'function';
+
+const now = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+const hasAnimationFrame = () => typeof requestAnimationFrame === 'function';
+
+const requestFrame = (callback: () => void): unknown =>
+  hasAnimationFrame() ? requestAnimationFrame(callback) : setTimeout(callback, 16);
+
+const cancelFrame = (frame: unknown) => {
+  if (hasAnimationFrame()) {
+    cancelAnimationFrame(frame as number);
+  } else {
+    clearTimeout(frame as ReturnType<typeof setTimeout>);
+  }
+};
+
+/**
+ * Puts back the inline `transition` of the root, or removes it when there was none.
+ * @private
+ */
+const restoreTransition = (replaced: { root: HTMLElement; transition: string } | null) => {
+  if (!replaced) return;
+  const { root, transition } = replaced;
+  if (transition) {
+    root.style.setProperty('transition', transition);
+  } else {
+    root.style.removeProperty('transition');
+  }
+};
+
+/**
+ * Picks the first requested strategy that this environment supports.
+ * @private
+ */
+const resolveStrategy = (
+  { strategy = 'auto', easing }: ThemeTransitionOptions,
+  cssVariables: boolean
+): Exclude<ThemeTransitionStrategy, 'auto'> => {
+  // Browsers can only ease with their own curves
+  const automatic = strategy === 'auto' && typeof easing !== 'function';
+  if ((automatic || strategy === 'view-transition') && getViewTransitionDocument()) {
+    return 'view-transition';
+  }
+  if ((automatic || strategy === 'css') && cssVariables && supportsCssTransitions()) {
+    return 'css';
+  }
+  return 'interpolate';
+};
+
+/**
+ * Reads the duration and easing, with defaults.
+ * @private
+ */
+const getTiming = (options: ThemeTransitionOptions | null) => {
+  const { duration = DEFAULT_DURATION, easing = 'ease-in-out' } = options ?? {};
+  return {
+    duration,
+    ease: typeof easing === 'function' ? easing : EASINGS[easing],
+    cssEasing: typeof easing === 'function' ? 'ease-in-out' : easing,
+  };
+};
+
+/**
+ * Hook animating changes of the theme.
+ * @param theme - Current theme
+ * @param transition - `true` for the default transition, options, or falsy for instant changes
+ * @param cssVariables - Whether the provider applies the theme as CSS custom properties
+ * @returns The theme to render and helpers for the provider.
+ */
+export function useThemeTransition(
+  theme: Theme,
+  transition: boolean | ThemeTransitionOptions | undefined,
+  cssVariables: boolean
+): ThemeTransitionState {
+  const options = transition === true ? {} : transition || null;
+  const reducedMotion = useReducedMotion();
+  const strategy = options && !reducedMotion ? resolveStrategy(options, cssVariables) : 'none';
+
+  // Read by callbacks that must stay stable across renders
+  const optionsRef = useRef(options);
+  const strategyRef = useRef(strategy);
+  optionsRef.current = options;
+  strategyRef.current = strategy;
+
+  const [displayed, setDisplayed] = useState(theme);
+  const [displayedStrategy, setDisplayedStrategy] = useState(strategy);
+  const shown = useRef(theme);
+  const pendingCommit = useRef<(() => void) | null>(null);
+  // Inline `transition` of the root before the `css` strategy replaced it, or null while not applied
+  const replacedTransition = useRef<{ root: HTMLElement; transition: string } | null>(null);
+
+  // Drops a theme left over from an earlier interpolation before rendering it
+  if (displayedStrategy !== strategy) {
+    setDisplayedStrategy(strategy);
+    setDisplayed(theme);
+  }
+
+  useEffect(() => {
+    pendingCommit.current?.();
+    pendingCommit.current = null;
+
+    const from = shown.current;
+    if (strategy !== 'interpolate' || from === theme) {
+      shown.current = theme;
+      if (strategy === 'interpolate') setDisplayed(theme);
+      return;
+    }
+
+    const { duration, ease } = getTiming(optionsRef.current);
+    const start = now();
+    const step = () => {
+      const progress = duration > 0 ? Math.min(1, (now() - start) / duration) : 1;
+      shown.current = progress >= 1 ? theme : interpolateTheme(from, theme, ease(progress));
+      setDisplayed(shown.current);
+      if (progress < 1) frame = requestFrame(step);
+    };
+    let frame = requestFrame(step);
+
+    return () => cancelFrame(frame);
+  }, [theme, strategy]);
+
+  const run = useCallback((update: () => void) => {
+    const viewTransitionDocument = getViewTransitionDocument();
+    if (strategyRef.current !== 'view-transition' || !viewTransitionDocument) {
+      update();
+      return;
+    }
+
+    const { duration, cssEasing } = getTiming(optionsRef.current);
+    const viewTransition = viewTransitionDocument.startViewTransition(() => new Promise<void>(resolve => {
+      pendingCommit.current = resolve;
+      update();
+      setTimeout(resolve, COMMIT_TIMEOUT);
+    }));
+
+    viewTransition.ready.then(() => {
+      const root = document.documentElement;
+      root.animate({ opacity: [1, 0] }, { duration, easing: cssEasing, pseudoElement: '::view-transition-old(root)' });
+      root.animate({ opacity: [0, 1] }, { duration, easing: cssEasing, pseudoElement: '::view-transition-new(root)' });
+    }).catch(() => undefined);
+  }, []);
+
+  const prepareCssVariables = useCallback((root: HTMLElement, variables: Record<string, string>) => {
+    if (strategyRef.current !== 'css') return;
+
+    const names = Object.keys(variables).filter(name => ColorConverter.parse(variables[name]).ok);
+    for (const name of names) {
+      if (registeredProperties.has(name)) continue;
+      try {
+        // Applies document-wide: an unset property resolves to this color instead of a var() fallback
+        CSS.registerProperty({ name, syntax: '<color>', inherits: true, initialValue: variables[name] });
+      } catch {
+        // Already registered, e.g. by a stylesheet's @property rule
+      }
+      registeredProperties.add(name);
+    }
+
+    // Registered colors interpolate in OKLab, the CSS Color 4 default
+    const { duration, cssEasing } = getTiming(optionsRef.current);
+    if (!replacedTransition.current) {
+      replacedTransition.current = { root, transition: root.style.getPropertyValue('transition') };
+    }
+    // Keeps the transitions the app set inline on the root
+    const transitions = names.map(name => `${name} ${duration}ms ${cssEasing}`);
+    const { transition } = replacedTransition.current;
+    if (transition) transitions.unshift(transition);
+    root.style.setProperty('transition', transitions.join(', '));
+  }, []);
+
+  // Puts back the inline transition of the root once the `css` strategy is no longer used
+  useEffect(() => {
+    if (strategy === 'css') return;
+    restoreTransition(replacedTransition.current);
+    replacedTransition.current = null;
+  }, [strategy]);
+
+  useEffect(() => () => restoreTransition(replacedTransition.current), []);
+
+  return {
+    theme: strategy === 'interpolate' ? displayed : theme,
+    strategy,
+    run,
+    prepareCssVariables,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * @module importers/buildTheme
+ * @description Maps flattened color tokens onto theme roles and completes missing roles
+ */
+
+import { Theme, ThemeColors, validateTheme } from '../themes';
+import { ColorDepth, SemanticColor, ThemePalette } from '../types/color';
+import { paletteToColors } from '../themes/adapters';
+import { ColorDepthGenerator } from '../generators/colorDepth';
+import { ThemeGenerator } from '../generators/themeGenerator';
+import { ColorConverter } from '../utils/colorConverter';
+import { ImportDiagnostic, ImportOptions, ImportResult, TokenEntry } from './types';
+
+type ScaleGroup = 'primary' | 'secondary' | 'accent' | 'neutral';
+type SemanticRole = 'info' | 'success' | 'warning' | 'error';
+
+type TokenTarget =
+  | { kind: 'color'; role: keyof ThemeColors }
+  | { kind: 'scale'; group: ScaleGroup; step: keyof ColorDepth }
+  | { kind: 'semantic'; role: SemanticRole; variant: 'light' | 'dark' | 'bg' }
+  | { kind: 'text'; key: 'secondary' | 'disabled' | 'inverse' };
+
+const ROLE_GROUPS = ['primary', 'secondary', 'accent', 'neutral', 'info', 'success', 'warning', 'error'] as const;
+const SCALE_GROUPS: ScaleGroup[] = ['primary', 'secondary', 'accent', 'neutral'];
+const SEMANTIC_ROLES: SemanticRole[] = ['info', 'success', 'warning', 'error'];
+const STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+
+/** Leading path segments that carry no role information */
+const IGNORED_PREFIXES = new Set(['color', 'colors', 'glacier', 'theme', 'palette', 'sys', 'semantic']);
+
+const GROUP_SYNONYMS: Record<string, (typeof ROLE_GROUPS)[number]> = {
+  brand: 'primary',
+  gray: 'neutral',
+  grey: 'neutral',
+  danger: 'error',
+  warn: 'warning',
+};
+
+/**
+ * Builds the lookup from normalized token paths to theme roles.
+ * @private
+ */
+const buildAliases = (): Map<string, TokenTarget> => {
+  const aliases = new Map<string, TokenTarget>();
+  const add = (keys: string[], target: TokenTarget) => keys.forEach(key => aliases.set(key, target));
+
+  for (const group of ROLE_GROUPS) {
+    add([group, `${group}.default`, `${group}.base`, `${group}.main`], { kind: 'color', role: group });
+    add(
+      [`${group}.content`, `${group}.foreground`, `${group}.fg`, `${group}.text`, `${group}.contrast`, `on.${group}`],
+      { kind: 'color', role: `${group}Content` }
+    );
+  }
+  for (const group of SCALE_GROUPS) {
+    for (const step of STEPS) {
+      add([`${group}.${step}`], { kind: 'scale', group, step });
+    }
+  }
+  for (const role of SEMANTIC_ROLES) {
+    add([`${role}.light`], { kind: 'semantic', role, variant: 'light' });
+    add([`${role}.dark`], { kind: 'semantic', role, variant: 'dark' });
+    add([`${role}.bg`, `${role}.background`, `${role}.subtle`], { kind: 'semantic', role, variant: 'bg' });
+  }
+
+  add(['base.100', 'background', 'background.default', 'bg', 'surface'], { kind: 'color', role: 'base100' });
+  add(['base.200', 'background.paper', 'surface.paper'], { kind: 'color', role: 'base200' });
+  add(['base.300', 'background.elevated', 'surface.elevated'], { kind: 'color', role: 'base300' });
+  add(['base.content', 'foreground', 'text', 'text.primary', 'on.background', 'on.surface'], { kind: 'color', role: 'baseContent' });
+  add(['text.secondary'], { kind: 'text', key: 'secondary' });
+  add(['text.disabled'], { kind: 'text', key: 'disabled' });
+  add(['text.inverse'], { kind: 'text', key: 'inverse' });
+
+  return aliases;
+};
+
+const ALIASES = buildAliases();
+
+/**
+ * Splits token path segments on separators, camelCase and letter/digit boundaries.
+ * @private
+ */
+const normalizePath = (path: string[]): string => {
+  const segments = path
+    .flatMap(segment => segment
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/([a-zA-Z])([0-9])/g, '$1 $2')
+      .split(/[\s.\-_/]+/))
+    .map(segment => segment.toLowerCase())
+    .filter(Boolean)
+    .map(segment => GROUP_SYNONYMS[segment] ?? segment);
+
+  while (segments.length > 1 && IGNORED_PREFIXES.has(segments[0])) {
+    segments.shift();
+  }
+  return segments.join('.');
+};
+
+/**
+ * @function normalizeColorValue
+ * @description Converts a token value in any CSS color syntax into a hex color
+ * @param {string} value - Raw token value
+ * @returns {string | null} Hex color, or null if the value is not a color
+ */
+export function normalizeColorValue(value: string): string | null {
+  return ColorConverter.parse(value).ok ? ColorConverter.toHex(value.trim()) : null;
+}
+
+/**
+ * @function buildThemeFromTokens
+ * @description Maps color tokens onto theme roles, completes missing roles with ColorDepthGenerator
+ * and validates the result with validateTheme, reporting its errors and warnings as diagnostics
+ * @param {TokenEntry[]} tokens - Flattened color tokens
+ * @param {ImportOptions} [options] - Import options
+ * @param {ImportDiagnostic[]} [diagnostics] - Diagnostics collected while parsing the source
+ * @returns {ImportResult} Imported theme and diagnostics
+ */
+export function buildThemeFromTokens(
+  tokens: TokenEntry[],
+  { name = 'imported' }: ImportOptions = {},
+  diagnostics: ImportDiagnostic[] = []
+): ImportResult {
+  const colors: Partial<ThemeColors> = {};
+  const scales: Record<ScaleGroup, Partial<ColorDepth>> = { primary: {}, secondary: {}, accent: {}, neutral: {} };
+  const semantic: Record<SemanticRole, Partial<SemanticColor>> = { info: {}, success: {}, warning: {}, error: {} };
+  const text: Partial<ThemePalette['text']> = {};
+
+  for (const token of tokens) {
+    const path = token.path.join('.');
+    const target = ALIASES.get(normalizePath(token.path));
+
+    if (!target) {
+      diagnostics.push({ level: 'warning', path, message: 'Token does not map to a theme role and was ignored' });
+      continue;
+    }
+
+    const hex = normalizeColorValue(token.value);
+    if (!hex) {
+      diagnostics.push({ level: 'warning', path, message: `Unsupported color value "${token.value}"` });
+      continue;
+    }
+
+    switch (target.kind) {
+      case 'color': colors[target.role] = hex; break;
+      case 'scale': scales[target.group][target.step] = hex; break;
+      case 'semantic': semantic[target.role][target.variant] = hex; break;
+      case 'text': text[target.key] = hex; break;
+    }
+  }
+
+  for (const group of SCALE_GROUPS) {
+    if (!colors[group] && scales[group][500]) {
+      colors[group] = scales[group][500];
+    }
+  }
+
+  if (!colors.primary) {
+    diagnostics.push({ level: 'error', path: 'colors.primary', message: 'No primary color found' });
+    return { theme: null, diagnostics };
+  }
+
+  const isDark = colors.base100 !== undefined && (() => {
+    const info = ColorConverter.getAccessibilityInfo(colors.base100);
+    return info.contrastWithWhite > info.contrastWithBlack;
+  })();
+
+  const palette = ThemeGenerator.generatePalette({
+    baseColor: colors.primary,
+    secondaryColor: colors.secondary,
+    accentColor: colors.accent,
+    neutralColor: colors.neutral,
+    isDark,
+  });
+
+  for (const group of SCALE_GROUPS) {
+    const steps = Object.keys(scales[group]).length;
+    if (steps > 0 && steps < STEPS.length) {
+      diagnostics.push({
+        level: 'info',
+        path: `palette.${group}`,
+        message: `Scale has ${steps} of ${STEPS.length} steps; missing steps were generated`,
+      });
+    }
+    palette[group] = {
+      ...ColorDepthGenerator.generateColorDepth(colors[group] ?? palette[group]?.[500] ?? palette.primary[700]),
+      ...scales[group],
+    };
+  }
+
+  for (const role of SEMANTIC_ROLES) {
+    const base = colors[role] ?? palette.semantic[role].base;
+    palette.semantic[role] = {
+      ...ColorDepthGenerator.generateSemanticColor(base, isDark),
+      ...semantic[role],
+      text: colors[`${role}Content`] ?? ColorDepthGenerator.getContentColor(base),
+    };
+  }
+
+  palette.background = {
+    default: colors.base100 ?? palette.background.default,
+    paper: colors.base200 ?? palette.background.paper,
+    elevated: colors.base300 ?? palette.background.elevated,
+  };
+  palette.text = {
+    ...palette.text,
+    primary: colors.baseContent ?? palette.text.primary,
+    ...text,
+    inverse: text.inverse ?? colors.base100 ?? palette.text.inverse,
+  };
+
+  const derived = paletteToColors(palette);
+  for (const role of Object.keys(derived) as (keyof ThemeColors)[]) {
+    if (!colors[role]) {
+      diagnostics.push({
+        level: 'warning',
+        path: `colors.${role}`,
+        message: `No token for ${role}; derived ${derived[role]}`,
+      });
+    }
+  }
+
+  const theme: Theme = { name, colors: { ...derived, ...colors }, palette };
+
+  const validation = validateTheme(theme);
+  diagnostics.push(...validation.errors, ...validation.warnings);
+  if (!validation.valid) {
+    return { theme: null, diagnostics };
+  }
+
+  return { theme, diagnostics };
+}
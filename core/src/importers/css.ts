@@ -0,0 +1,47 @@
+/**
+ * @module importers/css
+ * @description CSS custom property file importer
+ */
+
+import { buildThemeFromTokens } from './buildTheme';
+import { ImportDiagnostic, ImportOptions, ImportResult, TokenEntry } from './types';
+
+/**
+ * @function importCssVariables
+ * @description Builds a theme from CSS custom properties such as `--primary: #5E81AC;`.
+ * Later declarations override earlier ones and `var(--name)` references are resolved.
+ * @param {string} css - Stylesheet source
+ * @param {ImportOptions} [options] - Import options
+ * @returns {ImportResult} Imported theme and diagnostics
+ */
+export function importCssVariables(css: string, options?: ImportOptions): ImportResult {
+  const diagnostics: ImportDiagnostic[] = [];
+  const declarations = new Map<string, string>();
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+
+  for (const match of source.matchAll(/--([\w-]+)\s*:\s*([^;}]+)/g)) {
+    declarations.set(match[1], match[2].trim());
+  }
+
+  const resolve = (value: string, seen: Set<string>): string | null => {
+    const reference = value.match(/^var\(\s*--([\w-]+)\s*(?:,\s*(.+))?\)$/);
+    if (!reference) return value;
+
+    const [, name, fallback] = reference;
+    const target = declarations.get(name);
+    if (target !== undefined && !seen.has(name)) return resolve(target, new Set(seen).add(name));
+    return fallback ? resolve(fallback.trim(), seen) : null;
+  };
+
+  const tokens: TokenEntry[] = [];
+  for (const [name, value] of declarations) {
+    const resolved = resolve(value, new Set([name]));
+    if (resolved === null) {
+      diagnostics.push({ level: 'warning', path: `--${name}`, message: `Cannot resolve ${value}` });
+      continue;
+    }
+    tokens.push({ path: [name], value: resolved });
+  }
+
+  return buildThemeFromTokens(tokens, options, diagnostics);
+}
@@ -0,0 +1,22 @@
+/**
+ * @module importers/dtcg
+ * @description W3C Design Tokens Community Group format importer
+ */
+
+import { buildThemeFromTokens } from './buildTheme';
+import { flattenTokenTree } from './flatten';
+import { ImportDiagnostic, ImportOptions, ImportResult } from './types';
+
+/**
+ * @function importDtcgTokens
+ * @description Builds a theme from a DTCG token document (`$value`/`$type` tokens)
+ * @param {unknown} document - Parsed token JSON
+ * @param {ImportOptions} [options] - Import options
+ * @returns {ImportResult} Imported theme and diagnostics
+ */
+export function importDtcgTokens(document: unknown, options?: ImportOptions): ImportResult {
+  const diagnostics: ImportDiagnostic[] = [];
+  const tokens = flattenTokenTree(document, { valueKey: '$value', typeKey: '$type' }, diagnostics);
+
+  return buildThemeFromTokens(tokens, options, diagnostics);
+}
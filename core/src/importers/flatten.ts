@@ -0,0 +1,76 @@
+/**
+ * @module importers/flatten
+ * @description Flattening and alias resolution for nested token documents
+ */
+
+import { ImportDiagnostic, TokenEntry } from './types';
+
+/**
+ * @interface FlattenOptions
+ * @description Property names used by a token format
+ */
+export interface FlattenOptions {
+  /** Property holding a token value, e.g. `$value` */
+  valueKey: string;
+  /** Property holding a token type, e.g. `$type`; inherited from parent groups */
+  typeKey: string;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * @function flattenTokenTree
+ * @description Collects color tokens from a nested token document and resolves `{group.token}` aliases
+ * @param {unknown} tree - Parsed token document
+ * @param {FlattenOptions} options - Property names of the format
+ * @param {ImportDiagnostic[]} diagnostics - Receives skipped and unresolvable tokens
+ * @returns {TokenEntry[]} Flattened color tokens
+ */
+export function flattenTokenTree(
+  tree: unknown,
+  { valueKey, typeKey }: FlattenOptions,
+  diagnostics: ImportDiagnostic[]
+): TokenEntry[] {
+  const raw = new Map<string, { path: string[]; value: unknown; type?: string }>();
+
+  const walk = (node: unknown, path: string[], inheritedType?: string) => {
+    if (!isObject(node)) return;
+
+    const type = typeof node[typeKey] === 'string' ? node[typeKey] as string : inheritedType;
+    if (valueKey in node) {
+      raw.set(path.join('.'), { path, value: node[valueKey], type });
+      return;
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (!key.startsWith('$')) walk(child, [...path, key], type);
+    }
+  };
+  walk(tree, []);
+
+  const resolve = (value: unknown, seen: Set<string>): unknown => {
+    if (typeof value !== 'string') return value;
+
+    const alias = value.match(/^\{([^}]+)\}$/);
+    if (!alias) return value;
+
+    const target = raw.get(alias[1]);
+    if (!target || seen.has(alias[1])) return undefined;
+    return resolve(target.value, new Set(seen).add(alias[1]));
+  };
+
+  const tokens: TokenEntry[] = [];
+  for (const [key, token] of raw) {
+    if (token.type !== undefined && token.type !== 'color') continue;
+
+    const value = resolve(token.value, new Set([key]));
+    if (typeof value !== 'string') {
+      diagnostics.push({ level: 'warning', path: key, message: `Cannot resolve token value ${JSON.stringify(token.value)}` });
+      continue;
+    }
+    tokens.push({ path: token.path, value });
+  }
+
+  return tokens;
+}
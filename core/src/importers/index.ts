@@ -0,0 +1,11 @@
+/**
+ * @module importers
+ * @description Importers that build themes from external design-token files
+ */
+
+export * from './types';
+export { buildThemeFromTokens, normalizeColorValue } from './buildTheme';
+export * from './dtcg';
+export * from './tokensStudio';
+export * from './tailwind';
+export * from './css';
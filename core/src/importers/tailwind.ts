@@ -0,0 +1,37 @@
+/**
+ * @module importers/tailwind
+ * @description Tailwind config color object importer
+ */
+
+import { buildThemeFromTokens } from './buildTheme';
+import { ImportDiagnostic, ImportOptions, ImportResult, TokenEntry } from './types';
+
+/**
+ * @function importTailwindColors
+ * @description Builds a theme from a Tailwind `colors` object, e.g. `theme.extend.colors`.
+ * Accepts a full config too and reads its `theme.extend.colors` and `theme.colors`.
+ * @param {Record<string, unknown>} colors - Tailwind colors object or config
+ * @param {ImportOptions} [options] - Import options
+ * @returns {ImportResult} Imported theme and diagnostics
+ */
+export function importTailwindColors(colors: Record<string, unknown>, options?: ImportOptions): ImportResult {
+  const diagnostics: ImportDiagnostic[] = [];
+  const config = colors.theme as { colors?: Record<string, unknown>; extend?: { colors?: Record<string, unknown> } } | undefined;
+  const source = config ? { ...config.colors, ...config.extend?.colors } : colors;
+  const tokens: TokenEntry[] = [];
+
+  const walk = (node: unknown, path: string[]) => {
+    if (typeof node === 'string') {
+      tokens.push({ path, value: node });
+    } else if (typeof node === 'function') {
+      diagnostics.push({ level: 'warning', path: path.join('.'), message: 'Function color values are not supported' });
+    } else if (node && typeof node === 'object') {
+      for (const [key, child] of Object.entries(node)) {
+        walk(child, key === 'DEFAULT' ? [...path, 'default'] : [...path, key]);
+      }
+    }
+  };
+  walk(source, []);
+
+  return buildThemeFromTokens(tokens, options, diagnostics);
+}
@@ -0,0 +1,49 @@
+/**
+ * @module importers/tokensStudio
+ * @description Figma Tokens / Tokens Studio export importer
+ */
+
+import { buildThemeFromTokens } from './buildTheme';
+import { flattenTokenTree } from './flatten';
+import { ImportDiagnostic, ImportOptions, ImportResult, TokenEntry } from './types';
+
+/**
+ * @interface TokensStudioOptions
+ * @description Options for Tokens Studio exports
+ */
+export interface TokensStudioOptions extends ImportOptions {
+  /** Token sets to read, in order; later sets override earlier ones. Defaults to `$metadata.tokenSetOrder` */
+  sets?: string[];
+}
+
+/**
+ * @function importTokensStudio
+ * @description Builds a theme from a Tokens Studio export (`value`/`type` tokens, optionally split into sets)
+ * @param {unknown} document - Parsed export JSON
+ * @param {TokensStudioOptions} [options] - Import options
+ * @returns {ImportResult} Imported theme and diagnostics
+ */
+export function importTokensStudio(document: unknown, { sets, ...options }: TokensStudioOptions = {}): ImportResult {
+  const diagnostics: ImportDiagnostic[] = [];
+  const root = (document ?? {}) as Record<string, unknown>;
+  const metadata = root.$metadata as { tokenSetOrder?: string[] } | undefined;
+  const setNames = sets ?? metadata?.tokenSetOrder;
+
+  if (!setNames) {
+    const tokens = flattenTokenTree(root, { valueKey: 'value', typeKey: 'type' }, diagnostics);
+    return buildThemeFromTokens(tokens, options, diagnostics);
+  }
+
+  // Sets share one namespace, so aliases may point across sets
+  const merged: Record<string, unknown> = {};
+  for (const set of setNames) {
+    if (!(set in root)) {
+      diagnostics.push({ level: 'warning', path: set, message: 'Token set not found in export' });
+      continue;
+    }
+    Object.assign(merged, root[set]);
+  }
+
+  const tokens: TokenEntry[] = flattenTokenTree(merged, { valueKey: 'value', typeKey: 'type' }, diagnostics);
+  return buildThemeFromTokens(tokens, options, diagnostics);
+}
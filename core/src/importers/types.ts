@@ -0,0 +1,47 @@
+/**
+ * @module importers/types
+ * @description Result and diagnostic types shared by the design-token importers
+ */
+
+import { Theme } from '../themes/types';
+
+/**
+ * @interface ImportDiagnostic
+ * @description A problem or decision reported while importing tokens
+ */
+export interface ImportDiagnostic {
+  /** `error` means the theme could not be built; `warning` means a role was derived or a token ignored */
+  level: 'error' | 'warning' | 'info';
+  /** Token path in the source, or theme path such as `colors.accent` */
+  path: string;
+  message: string;
+}
+
+/**
+ * @interface ImportResult
+ * @description Imported theme plus everything that could not be mapped one-to-one
+ */
+export interface ImportResult {
+  /** Imported theme, or null when the source had no usable primary color */
+  theme: Theme | null;
+  diagnostics: ImportDiagnostic[];
+}
+
+/**
+ * @interface ImportOptions
+ * @description Options shared by all importers
+ */
+export interface ImportOptions {
+  /** Name of the imported theme, defaults to "imported" */
+  name?: string;
+}
+
+/**
+ * @interface TokenEntry
+ * @description A flattened color token
+ */
+export interface TokenEntry {
+  /** Path segments as they appear in the source */
+  path: string[];
+  value: string;
+}
@@ -0,0 +1,46 @@
+/**
+ * @module glacierui/core
+ * @description Public entry point of the core package
+ */
+
+export * from './types/color';
+export * from './themes';
+export * from './constants/colorWords';
+export * from './constants/cssColors';
+export * from './constants/colorNames';
+export * from './constants/scales';
+export { ColorConverter } from './utils/colorConverter';
+export { parseColor } from './utils/colorParser';
+export { parseColorPhrase } from './utils/colorPhrase';
+export { ColorDepthGenerator, type ColorDepthOptions, type ScaleOptions } from './generators/colorDepth';
+export { ContrastSolver, type ContrastSolveOptions } from './generators/contrastSolver';
+export { HarmonyGenerator, type HarmonyScheme } from './generators/harmony';
+export {
+  SemanticColorGenerator,
+  standardSemanticColors,
+  type SemanticMode
+} from './generators/semantic';
+export { ThemeGenerator, type ThemeOptions } from './generators/themeGenerator';
+export {
+  ThemeContext,
+  ThemeProvider,
+  useTheme,
+  type ThemePreference,
+  type ThemeOverride,
+  type ThemeContextValue,
+  type DocumentThemeOptions
+} from './hooks/useTheme';
+export * from './hooks/useThemeSelector';
+export * from './hooks/createThemedStyles';
+export * from './hooks/useColorScheme';
+export * from './hooks/useReducedMotion';
+export {
+  type ThemeEasing,
+  type ThemeTransitionOptions,
+  type ThemeTransitionStrategy
+} from './hooks/useThemeTransition';
+export * from './storage';
+export * from './ssr';
+export * from './exporters';
+export * from './importers';
+export * from './audit';
@@ -0,0 +1,88 @@
+/**
+ * @module ssr
+ * @description Helpers for rendering the stored theme on the server without a flash of the default theme
+ */
+
+import { ThemeName } from '../themes';
+import { parseCookies } from '../storage/cookie';
+
+const DEFAULT_STORAGE_KEY = '@glacier-ui:theme';
+
+/**
+ * @interface ThemeScriptOptions
+ * @description Options for the blocking theme script
+ */
+export interface ThemeScriptOptions {
+  storageKey?: string;
+  /** Preference used when nothing is stored */
+  defaultTheme?: ThemeName | 'system';
+  /** Theme applied for `'system'` when the OS prefers a light scheme */
+  lightTheme?: ThemeName;
+  /** Theme applied for `'system'` when the OS prefers a dark scheme */
+  darkTheme?: ThemeName;
+  /** Where the preference is stored on the client */
+  source?: 'localStorage' | 'cookie';
+  /** Attribute set on `<html>`, defaults to `data-theme` */
+  attribute?: string;
+}
+
+/**
+ * @function getThemeFromCookies
+ * @description Reads the stored theme preference from a `Cookie` header
+ * @param {string | null | undefined} cookieHeader - Request `Cookie` header
+ * @param {string} [storageKey='@glacier-ui:theme'] - Cookie name used by the cookie storage adapter
+ * @returns {string | null} Stored preference, or null when none is set
+ */
+export function getThemeFromCookies(
+  cookieHeader: string | null | undefined,
+  storageKey: string = DEFAULT_STORAGE_KEY
+): string | null {
+  return parseCookies(cookieHeader ?? '')[storageKey] ?? null;
+}
+
+/**
+ * @function getThemeAttributes
+ * @description Attributes to render on `<html>` for a server-resolved theme
+ * @param {string} themeName - Resolved theme name
+ * @param {string} [attribute='data-theme'] - Attribute name
+ * @returns {Record<string, string>} Attributes to spread onto the root element
+ */
+export function getThemeAttributes(
+  themeName: string,
+  attribute: string = 'data-theme'
+): Record<string, string> {
+  return { [attribute]: themeName };
+}
+
+/**
+ * @function getThemeScript
+ * @description Builds an inline script that applies the stored theme before first paint.
+ * Render it in `<head>` as a blocking `<script>`.
+ * @param {ThemeScriptOptions} [options] - Script options
+ * @returns {string} Script source
+ */
+export function getThemeScript({
+  storageKey = DEFAULT_STORAGE_KEY,
+  defaultTheme = 'nord',
+  lightTheme = 'accessible',
+  darkTheme = 'nord',
+  source = 'localStorage',
+  attribute = 'data-theme',
+}: ThemeScriptOptions = {}): string {
+  // JSON.stringify alone does not prevent `</script>` from closing the tag
+  const json = (value: string) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+  const read = source === 'cookie'
+    ? "document.cookie.split(';').forEach(function(c){var i=c.indexOf('=');if(i>0&&decodeURIComponent(c.slice(0,i).trim())===k)s=decodeURIComponent(c.slice(i+1).trim());});"
+    : 's=window.localStorage.getItem(k);';
+
+  return [
+    '(function(){try{',
+    `var k=${json(storageKey)},s=null;`,
+    read,
+    `var t=s||${json(defaultTheme)};`,
+    `if(t==='system'){t=window.matchMedia('(prefers-color-scheme: dark)').matches?${json(darkTheme)}:${json(lightTheme)};}`,
+    `document.documentElement.setAttribute(${json(attribute)},t);`,
+    '}catch(e){}})();',
+  ].join('');
+}
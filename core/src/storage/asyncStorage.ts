@@ -0,0 +1,38 @@
+/**
+ * @module storage/asyncStorage
+ * @description React Native AsyncStorage adapter
+ */
+
+import { ThemeStorage } from './types';
+
+/**
+ * @interface AsyncStorageLike
+ * @description Subset of the `@react-native-async-storage/async-storage` API used by the adapter
+ */
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * @function createAsyncStorage
+ * @description Creates an adapter backed by AsyncStorage
+ * @param {AsyncStorageLike} [asyncStorage] - AsyncStorage instance; pass it explicitly under ESM.
+ * When omitted, `@react-native-async-storage/async-storage` is required on first use.
+ * @returns {ThemeStorage} Storage adapter
+ */
+export function createAsyncStorage(asyncStorage?: AsyncStorageLike): ThemeStorage {
+  const getStorage = (): AsyncStorageLike => {
+    if (!asyncStorage) {
+      asyncStorage = require('@react-native-async-storage/async-storage').default as AsyncStorageLike;
+    }
+    return asyncStorage;
+  };
+
+  return {
+    getItem: key => getStorage().getItem(key),
+    setItem: (key, value) => getStorage().setItem(key, value),
+    removeItem: key => getStorage().removeItem(key),
+  };
+}
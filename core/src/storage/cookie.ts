@@ -0,0 +1,83 @@
+/**
+ * @module storage/cookie
+ * @description Cookie adapter, readable by the server on the next request
+ */
+
+import { ThemeStorage } from './types';
+
+/**
+ * @interface CookieStorageOptions
+ * @description Attributes written with the theme cookie
+ */
+export interface CookieStorageOptions {
+  /** Cookie lifetime in seconds, defaults to one year */
+  maxAge?: number;
+  path?: string;
+  domain?: string;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  secure?: boolean;
+  /** Cookie string to read from when there is no `document`, e.g. the request's `Cookie` header */
+  cookies?: string;
+}
+
+/**
+ * @function parseCookies
+ * @description Parses a `Cookie` header or `document.cookie` string
+ * @param {string} cookies - Cookie string
+ * @returns {Record<string, string>} Decoded cookie values by name
+ */
+export function parseCookies(cookies: string): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const part of cookies.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      result[decodeURIComponent(name)] = decodeURIComponent(value);
+    } catch {
+      result[name] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * @function createCookieStorage
+ * @description Creates an adapter backed by `document.cookie`, reading synchronously so the
+ * server and first client render agree
+ * @param {CookieStorageOptions} [options] - Cookie attributes
+ * @returns {ThemeStorage} Storage adapter
+ */
+export function createCookieStorage({
+  maxAge = 60 * 60 * 24 * 365,
+  path = '/',
+  domain,
+  sameSite = 'Lax',
+  secure = false,
+  cookies,
+}: CookieStorageOptions = {}): ThemeStorage {
+  const read = () => (typeof document !== 'undefined' ? document.cookie : cookies ?? '');
+
+  const write = (key: string, value: string, age: number) => {
+    if (typeof document === 'undefined') return;
+
+    document.cookie = [
+      `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+      `Max-Age=${age}`,
+      `Path=${path}`,
+      domain && `Domain=${domain}`,
+      `SameSite=${sameSite}`,
+      secure && 'Secure',
+    ].filter(Boolean).join('; ');
+  };
+
+  return {
+    getItem: key => parseCookies(read())[key] ?? null,
+    setItem: (key, value) => write(key, value, maxAge),
+    removeItem: key => write(key, '', 0),
+  };
+}
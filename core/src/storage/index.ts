@@ -0,0 +1,31 @@
+/**
+ * @module storage
+ * @description Storage adapters for theme persistence
+ */
+
+import { ThemeStorage } from './types';
+import { createLocalStorage } from './localStorage';
+import { createAsyncStorage } from './asyncStorage';
+
+let defaultStorage: ThemeStorage | null = null;
+
+/**
+ * @function getDefaultStorage
+ * @description Returns localStorage on the web and AsyncStorage elsewhere
+ * @returns {ThemeStorage} Shared default storage adapter
+ */
+export function getDefaultStorage(): ThemeStorage {
+  if (!defaultStorage) {
+    defaultStorage = typeof window !== 'undefined' && window.localStorage
+      ? createLocalStorage()
+      : createAsyncStorage();
+  }
+  return defaultStorage;
+}
+
+export * from './types';
+export * from './localStorage';
+export * from './asyncStorage';
+export * from './memory';
+export * from './cookie';
+export * from './themes';
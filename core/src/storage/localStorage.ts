@@ -0,0 +1,29 @@
+/**
+ * @module storage/localStorage
+ * @description Web localStorage adapter with cross-tab sync
+ */
+
+import { ThemeStorage } from './types';
+
+/**
+ * @function createLocalStorage
+ * @description Creates an adapter backed by `window.localStorage`
+ * @returns {ThemeStorage} Storage adapter that syncs across tabs through the `storage` event
+ */
+export function createLocalStorage(): ThemeStorage {
+  return {
+    getItem: key => window.localStorage.getItem(key),
+    setItem: (key, value) => window.localStorage.setItem(key, value),
+    removeItem: key => window.localStorage.removeItem(key),
+    subscribe: (key, listener) => {
+      const onStorage = (event: StorageEvent) => {
+        if (event.storageArea === window.localStorage && event.key === key) {
+          listener(event.newValue);
+        }
+      };
+
+      window.addEventListener('storage', onStorage);
+      return () => window.removeEventListener('storage', onStorage);
+    },
+  };
+}
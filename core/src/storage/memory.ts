@@ -0,0 +1,26 @@
+/**
+ * @module storage/memory
+ * @description In-memory adapter for tests, SSR and non-persistent setups
+ */
+
+import { ThemeStorage } from './types';
+
+/**
+ * @function createMemoryStorage
+ * @description Creates an adapter that keeps values in memory only
+ * @param {Record<string, string>} [initial] - Initial values
+ * @returns {ThemeStorage} Storage adapter
+ */
+export function createMemoryStorage(initial: Record<string, string> = {}): ThemeStorage {
+  const values = new Map(Object.entries(initial));
+
+  return {
+    getItem: key => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: key => {
+      values.delete(key);
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * @module storage/themes
+ * @description Persistence of custom theme objects, validated when loaded
+ */
+
+import { Theme, ThemeValidationResult, validateTheme } from '../themes';
+import { ThemeStorage } from './types';
+
+const DEFAULT_KEY_PREFIX = '@glacier-ui:theme:';
+
+/**
+ * @interface StoredThemeResult
+ * @description A theme read back from storage
+ */
+export interface StoredThemeResult {
+  /** The stored theme, or null when it failed validation */
+  theme: Theme | null;
+  validation: ThemeValidationResult;
+}
+
+/**
+ * @function saveStoredTheme
+ * @description Stores a theme as JSON under its name
+ * @param {ThemeStorage} storage - Storage adapter
+ * @param {Theme} theme - Theme to store
+ * @param {string} [keyPrefix='@glacier-ui:theme:'] - Prefix of the storage key
+ * @returns {Promise<void>} Resolves once stored
+ */
+export async function saveStoredTheme(
+  storage: ThemeStorage,
+  theme: Theme,
+  keyPrefix: string = DEFAULT_KEY_PREFIX
+): Promise<void> {
+  await storage.setItem(`${keyPrefix}${theme.name}`, JSON.stringify(theme));
+}
+
+/**
+ * @function loadStoredTheme
+ * @description Reads a stored theme and validates it with validateTheme, since storage may hold
+ * themes written by older versions or edited by hand
+ * @param {ThemeStorage} storage - Storage adapter
+ * @param {string} name - Name the theme was stored under
+ * @param {string} [keyPrefix='@glacier-ui:theme:'] - Prefix of the storage key
+ * @returns {Promise<StoredThemeResult | null>} Theme and validation result, or null if nothing is stored
+ */
+export async function loadStoredTheme(
+  storage: ThemeStorage,
+  name: string,
+  keyPrefix: string = DEFAULT_KEY_PREFIX
+): Promise<StoredThemeResult | null> {
+  const stored = await storage.getItem(`${keyPrefix}${name}`);
+  if (stored === null) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(stored);
+  } catch {
+    return {
+      theme: null,
+      validation: {
+        valid: false,
+        errors: [{ level: 'error', path: '', message: 'Stored value is not valid JSON' }],
+        warnings: [],
+      },
+    };
+  }
+
+  const validation = validateTheme(value);
+  return { theme: validation.valid ? (value as Theme) : null, validation };
+}
@@ -0,0 +1,16 @@
+/**
+ * @module storage/types
+ * @description Storage adapter contract used by ThemeProvider for persistence
+ */
+
+/**
+ * @interface ThemeStorage
+ * @description Minimal key/value storage. Methods may be synchronous or return promises.
+ */
+export interface ThemeStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+  /** Optional change notifications from outside this app instance, e.g. other tabs */
+  subscribe?(key: string, listener: (value: string | null) => void): () => void;
+}
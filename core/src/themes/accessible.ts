@@ -8,7 +8,8 @@ import { Theme } from './types';
 export const accessible: Theme = {
   name: 'accessible',
   colors: {
-    // Main colors with high contrast ratios (WCAG AAA)
+    // Main colors with high contrast ratios. Most pairs reach WCAG AA, not all reach AAA, and
+    // warningContent on warning is 4.0:1; auditTheme reports every pair
     primary: '#0052CC',
     primaryContent: '#FFFFFF',
     secondary: '#006644',
@@ -0,0 +1,119 @@
+/**
+ * @module themes/adapters
+ * @description Conversions between flat theme colors and scale-based palettes
+ */
+
+import { Theme, ThemeColors } from './types';
+import { ThemePalette } from '../types/color';
+import { ColorDepthGenerator } from '../generators/colorDepth';
+import { ColorConverter } from '../utils/colorConverter';
+
+const derivedPalettes = new WeakMap<Theme, ThemePalette>();
+
+/**
+ * @function paletteToColors
+ * @description Flattens a scale-based palette into theme colors
+ * @param {ThemePalette} palette - Generated palette
+ * @returns {ThemeColors} Flat theme colors
+ */
+export function paletteToColors(palette: ThemePalette): ThemeColors {
+  const { primary, accent, neutral, semantic, background, text } = palette;
+  const secondary = palette.secondary?.[500] ?? primary[700];
+
+  return {
+    primary: primary[500],
+    primaryContent: ColorDepthGenerator.getContentColor(primary[500]),
+    secondary,
+    secondaryContent: ColorDepthGenerator.getContentColor(secondary),
+    accent: accent[500],
+    accentContent: ColorDepthGenerator.getContentColor(accent[500]),
+    neutral: neutral[500],
+    neutralContent: ColorDepthGenerator.getContentColor(neutral[500]),
+
+    base100: background.default,
+    base200: background.paper,
+    base300: background.elevated,
+    baseContent: text.primary,
+
+    info: semantic.info.base,
+    infoContent: semantic.info.text,
+    success: semantic.success.base,
+    successContent: semantic.success.text,
+    warning: semantic.warning.base,
+    warningContent: semantic.warning.text,
+    error: semantic.error.base,
+    errorContent: semantic.error.text,
+  };
+}
+
+/**
+ * @function colorsToPalette
+ * @description Expands flat theme colors into a scale-based palette
+ * @param {ThemeColors} colors - Flat theme colors
+ * @returns {ThemePalette} Palette with scales generated from the flat colors
+ */
+export function colorsToPalette(colors: ThemeColors): ThemePalette {
+  const info = ColorConverter.getAccessibilityInfo(colors.base100);
+  const isDark = info.contrastWithWhite > info.contrastWithBlack;
+  const neutralDepth = ColorDepthGenerator.generateColorDepth(colors.neutral);
+  const semantic = (base: string, content: string) => ({
+    ...ColorDepthGenerator.generateSemanticColor(base, isDark),
+    text: content,
+  });
+
+  return {
+    primary: ColorDepthGenerator.generateColorDepth(colors.primary),
+    secondary: ColorDepthGenerator.generateColorDepth(colors.secondary),
+    accent: ColorDepthGenerator.generateColorDepth(colors.accent),
+    neutral: neutralDepth,
+    semantic: {
+      success: semantic(colors.success, colors.successContent),
+      warning: semantic(colors.warning, colors.warningContent),
+      error: semantic(colors.error, colors.errorContent),
+      info: semantic(colors.info, colors.infoContent),
+    },
+    background: {
+      default: colors.base100,
+      paper: colors.base200,
+      elevated: colors.base300,
+    },
+    text: {
+      primary: colors.baseContent,
+      secondary: isDark ? neutralDepth[100] : neutralDepth[800],
+      disabled: isDark ? neutralDepth[200] : neutralDepth[700],
+      inverse: colors.base100,
+    },
+  };
+}
+
+/**
+ * @function getThemePalette
+ * @description Returns the palette of a theme, deriving and caching it for themes without one
+ * @param {Theme} theme - Runtime theme
+ * @returns {ThemePalette} Scale-based palette
+ */
+export function getThemePalette(theme: Theme): ThemePalette {
+  if (theme.palette) return theme.palette;
+
+  let palette = derivedPalettes.get(theme);
+  if (!palette) {
+    palette = colorsToPalette(theme.colors);
+    derivedPalettes.set(theme, palette);
+  }
+  return palette;
+}
+
+/**
+ * @function createTheme
+ * @description Builds a runtime theme from a generated palette
+ * @param {string} name - Theme name
+ * @param {ThemePalette} palette - Generated palette
+ * @returns {Theme} Theme carrying both the flat colors and the palette
+ */
+export function createTheme(name: string, palette: ThemePalette): Theme {
+  return {
+    name,
+    colors: paletteToColors(palette),
+    palette,
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * @module themes/compose
+ * @description Builds themes from other themes: extending with overrides and deriving variants
+ */
+
+import { Theme, ThemeColors } from './types';
+import { getThemePalette } from './adapters';
+import { ThemePalette } from '../types/color';
+import { ColorDepthGenerator } from '../generators/colorDepth';
+import { ContrastSolver } from '../generators/contrastSolver';
+import { ThemeGenerator } from '../generators/themeGenerator';
+import { ColorConverter } from '../utils/colorConverter';
+
+/**
+ * @type DeepPartial
+ * @description Makes every property optional, recursively
+ */
+export type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/**
+ * @interface ThemeOverrides
+ * @description Changes applied by extendTheme
+ */
+export interface ThemeOverrides {
+  /** Name of the new theme, defaults to the base theme's name */
+  name?: string;
+  colors?: Partial<ThemeColors>;
+  /** Individual scale steps, semantic variations, backgrounds or text colors */
+  palette?: DeepPartial<ThemePalette>;
+}
+
+/**
+ * @type ThemeVariant
+ * @description Variants createThemeVariant derives from a theme
+ */
+export type ThemeVariant = 'high-contrast' | 'dimmed' | 'dark';
+
+type ScaleRole = 'primary' | 'secondary' | 'accent' | 'neutral';
+type StateRole = 'info' | 'success' | 'warning' | 'error';
+
+const SCALE_ROLES: ScaleRole[] = ['primary', 'secondary', 'accent', 'neutral'];
+const STATE_ROLES: StateRole[] = ['info', 'success', 'warning', 'error'];
+const ROLES = [...SCALE_ROLES, ...STATE_ROLES];
+
+/** Contrast of text on the page, matching generated themes */
+const BASE_CONTENT_CONTRAST = 7;
+
+/**
+ * Whether light text reads better than dark text on a surface.
+ * @private
+ */
+const isDarkSurface = (surface: string): boolean => {
+  const info = ColorConverter.getAccessibilityInfo(surface);
+  return info.contrastWithWhite > info.contrastWithBlack;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Merges a deep partial into an object without mutating either.
+ * @private
+ */
+const mergeDeep = <T extends object>(target: T, source: DeepPartial<T>): T => {
+  const result = { ...target } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    const current = result[key];
+    result[key] = isObject(value) && isObject(current) ? mergeDeep(current, value) : value;
+  }
+  return result as T;
+};
+
+/**
+ * Reads the flat colors that palette overrides set, since flat colors are taken from the palette.
+ * @private
+ */
+const colorsFromPalette = (palette: DeepPartial<ThemePalette>): Partial<ThemeColors> => {
+  const colors: Partial<ThemeColors> = {};
+  for (const role of SCALE_ROLES) {
+    const color = palette[role]?.[500];
+    if (color) colors[role] = color;
+  }
+  for (const role of STATE_ROLES) {
+    const semantic = palette.semantic?.[role];
+    if (semantic?.base) colors[role] = semantic.base;
+    if (semantic?.text) colors[`${role}Content`] = semantic.text;
+  }
+  const { background, text } = palette;
+  if (background?.default) colors.base100 = background.default;
+  if (background?.paper) colors.base200 = background.paper;
+  if (background?.elevated) colors.base300 = background.elevated;
+  if (text?.primary) colors.baseContent = text.primary;
+  return colors;
+};
+
+/**
+ * Regenerates the palette entries that depend on flat colors that changed.
+ * @private
+ */
+const rederivePalette = (palette: ThemePalette, before: ThemeColors, colors: ThemeColors): ThemePalette => {
+  const changed = (role: keyof ThemeColors) => colors[role] !== before[role];
+  const isDark = isDarkSurface(colors.base100);
+  const next: ThemePalette = {
+    ...palette,
+    semantic: { ...palette.semantic },
+    background: { default: colors.base100, paper: colors.base200, elevated: colors.base300 },
+    text: { ...palette.text, primary: colors.baseContent },
+  };
+
+  for (const role of SCALE_ROLES) {
+    if (changed(role)) next[role] = ColorDepthGenerator.generateColorDepth(colors[role]);
+  }
+  for (const role of STATE_ROLES) {
+    if (changed(role)) {
+      next.semantic[role] = ColorDepthGenerator.generateSemanticColor(colors[role], isDark);
+    }
+    next.semantic[role] = { ...next.semantic[role], text: colors[`${role}Content`] };
+  }
+
+  if (changed('base100') || changed('base200') || changed('base300')) {
+    // Keeps the current secondary and disabled text where they still read on the new surfaces
+    const retune = (color: string, wcag: number) =>
+      ContrastSolver.solve(colors.base300, { color, target: { wcag } }).color;
+    next.text.secondary = retune(palette.text.secondary, 4.5);
+    next.text.disabled = retune(palette.text.disabled, 3);
+    next.text.inverse = colors.base100;
+  }
+  return next;
+};
+
+/**
+ * @function extendTheme
+ * @description Builds a theme from another with some colors replaced. Roles that depend on a
+ * replaced color are re-derived unless overridden too: its content color, its scale, its
+ * semantic variations, and the page text when the page background changes. Palette overrides
+ * are applied last and update the flat colors read from them, e.g. `palette.primary[500]`.
+ * @param {Theme} base - Theme to start from
+ * @param {ThemeOverrides} overrides - Name, flat colors and palette entries to replace
+ * @returns {Theme} New theme; the base theme is not modified
+ */
+export function extendTheme(base: Theme, overrides: ThemeOverrides = {}): Theme {
+  const paletteOverrides = overrides.palette ?? {};
+  const explicit = { ...colorsFromPalette(paletteOverrides), ...overrides.colors };
+  const colors: ThemeColors = { ...base.colors, ...explicit };
+  const changed = (role: keyof ThemeColors) => colors[role] !== base.colors[role];
+
+  // Content colors follow their role unless set explicitly
+  for (const role of ROLES) {
+    const content = `${role}Content` as const;
+    if (changed(role) && !explicit[content]) {
+      colors[content] = ColorDepthGenerator.getContentColor(colors[role]);
+    }
+  }
+  if (changed('base100') && !explicit.baseContent) {
+    colors.baseContent = ColorDepthGenerator.getContentColor(colors.base100, { wcag: BASE_CONTENT_CONTRAST });
+  }
+
+  const name = overrides.name ?? base.name;
+  // Themes without a palette keep deriving it from their colors on demand
+  if (!base.palette && !overrides.palette) {
+    return { name, colors };
+  }
+
+  const palette = rederivePalette(getThemePalette(base), base.colors, colors);
+  if (paletteOverrides.secondary && !palette.secondary) {
+    palette.secondary = ColorDepthGenerator.generateColorDepth(colors.secondary);
+  }
+  return { name, colors, palette: mergeDeep(palette, paletteOverrides) };
+}
+
+/**
+ * Applies a color transform to every role except the neutral.
+ * @private
+ */
+const mapRoles = (colors: ThemeColors, transform: (color: string) => string): Partial<ThemeColors> =>
+  Object.fromEntries(ROLES.filter(role => role !== 'neutral').map(role => [role, transform(colors[role])]));
+
+/**
+ * @function createThemeVariant
+ * @description Derives a variant of a theme, named `<theme>-<variant>`:
+ * - `high-contrast`: role colors reach 4.5:1 on the page and their content 7:1; page text is black or white
+ * - `dimmed`: role colors lose 40% of their chroma and page text is softened to 10:1
+ * - `dark`: a dark page tinted with the neutral hue, elevated surfaces and lifted role colors,
+ *   as generated dark themes have; dark themes are returned unchanged apart from the name
+ * @param {Theme} theme - Theme to derive from
+ * @param {ThemeVariant} variant - Variant to derive
+ * @returns {Theme} Derived theme
+ */
+export function createThemeVariant(theme: Theme, variant: ThemeVariant): Theme {
+  const { colors } = theme;
+  const name = `${theme.name}-${variant}`;
+
+  switch (variant) {
+    case 'high-contrast': {
+      const roles = Object.fromEntries(ROLES.flatMap(role => {
+        const color = ContrastSolver.solve(colors.base100, { color: colors[role], target: { wcag: 4.5 } }).color;
+        return [[role, color], [`${role}Content`, ColorDepthGenerator.getContentColor(color, { wcag: 7 })]];
+      }));
+      return extendTheme(theme, {
+        name,
+        colors: { ...roles, baseContent: isDarkSurface(colors.base100) ? '#FFFFFF' : '#000000' },
+      });
+    }
+    case 'dimmed': {
+      const baseContent = ColorConverter.getContrastRatio(colors.baseContent, colors.base100) > 10
+        ? ContrastSolver.solve(colors.base100, { color: colors.base100, target: { wcag: 10 } }).color
+        : colors.baseContent;
+      return extendTheme(theme, {
+        name,
+        colors: {
+          ...mapRoles(colors, color => {
+            const oklch = ColorConverter.hexToOklch(color);
+            return ColorConverter.oklchToHex({ ...oklch, c: oklch.c * 0.6 });
+          }),
+          baseContent,
+        },
+      });
+    }
+    case 'dark': {
+      if (isDarkSurface(colors.base100)) {
+        return extendTheme(theme, { name });
+      }
+      const base100 = ThemeGenerator.getDarkSurface(colors.neutral);
+      return extendTheme(theme, {
+        name,
+        colors: {
+          ...mapRoles(colors, color => ThemeGenerator.adaptForDark(color)),
+          base100,
+          base200: ThemeGenerator.getElevationSurface(base100, 1),
+          base300: ThemeGenerator.getElevationSurface(base100, 2),
+        },
+      });
+    }
+  }
+}
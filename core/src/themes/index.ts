@@ -6,33 +6,144 @@
 import { Theme } from './types';
 import { nord } from './nord';
 import { accessible } from './accessible';
+import { validateTheme } from './validate';
 
-export type ThemeName = 'nord' | 'accessible';
+/**
+ * @interface ThemeRegistry
+ * @description Type-level map of registered theme names. Augment it to type custom themes:
+ *
+ * ```ts
+ * declare module '@glacierui/core' {
+ *   interface ThemeRegistry {
+ *     brand: Theme;
+ *   }
+ * }
+ * ```
+ */
+export interface ThemeRegistry {
+  nord: Theme;
+  accessible: Theme;
+}
+
+export type BuiltInThemeName = 'nord' | 'accessible';
+
+export type ThemeName = Extract<keyof ThemeRegistry, string>;
 
-export const themes: Record<ThemeName, Theme> = {
+export const themes: Record<BuiltInThemeName, Theme> = {
   nord,
   accessible
 };
 
+const registry = new Map<string, Theme>(Object.entries(themes));
+const listeners = new Set<() => void>();
+
+/** Live registrations per name, latest last; the registry holds the latest */
+const registrations = new Map<string, { theme: Theme }[]>();
+
+const builtInTheme = (name: string): Theme | undefined =>
+  Object.hasOwn(themes, name) ? themes[name as BuiltInThemeName] : undefined;
+
+const notify = () => listeners.forEach(listener => listener());
+
 export const getTheme = (name: ThemeName = 'nord'): Theme => {
-  return themes[name] || themes.nord;
+  return registry.get(name) || themes.nord;
 };
 
+/**
+ * @function registerTheme
+ * @description Adds a theme to the registry, replacing any theme with the same name
+ * @param {Theme} theme - Theme to register under its `name`
+ * @returns {() => void} Function that unregisters the theme again, restoring the latest registration
+ * of that name still live, or the built-in theme
+ */
+export function registerTheme(theme: Theme): () => void {
+  const { name } = theme;
+  // An entry per call, so registering the same theme twice needs two disposals
+  const entry = { theme };
+  const stack = registrations.get(name) ?? [];
+  registrations.set(name, [...stack, entry]);
+  registry.set(name, theme);
+  notify();
+
+  return () => {
+    const live = registrations.get(name) ?? [];
+    if (!live.includes(entry)) return;
+
+    const remaining = live.filter(other => other !== entry);
+    if (remaining.length > 0) {
+      registrations.set(name, remaining);
+    } else {
+      registrations.delete(name);
+    }
+    if (live[live.length - 1] !== entry) return;
+
+    // Falls back to the latest live registration, then to the built-in theme of that name
+    const fallback = remaining[remaining.length - 1]?.theme ?? builtInTheme(name);
+    if (fallback) {
+      registry.set(name, fallback);
+    } else {
+      registry.delete(name);
+    }
+    notify();
+  };
+}
+
+/**
+ * @function unregisterTheme
+ * @description Removes a custom theme from the registry
+ * @param {ThemeName} name - Name of the theme to remove
+ * @returns {boolean} Whether a theme was removed
+ * @throws If the name belongs to a built-in theme
+ */
+export function unregisterTheme(name: ThemeName): boolean {
+  if (Object.hasOwn(themes, name)) {
+    throw new Error(`Cannot unregister built-in theme: ${name}`);
+  }
+
+  registrations.delete(name);
+  const removed = registry.delete(name);
+  if (removed) notify();
+  return removed;
+}
+
+/**
+ * @function listThemes
+ * @description Lists the names of all registered themes
+ */
+export function listThemes(): ThemeName[] {
+  return Array.from(registry.keys()) as ThemeName[];
+}
+
+/**
+ * @function hasTheme
+ * @description Type guard for registered theme names
+ */
+export function hasTheme(name: string): name is ThemeName {
+  return registry.has(name);
+}
+
+/**
+ * @function subscribeToThemes
+ * @description Calls the listener whenever a theme is registered or unregistered
+ * @returns {() => void} Unsubscribe function
+ */
+export function subscribeToThemes(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
 export * from './types';
+export * from './adapters';
+export * from './compose';
+export * from './interpolate';
+export * from './validate';
 
 /**
  * @function isValidTheme
- * @description Type guard for theme validation
+ * @description Type guard for theme validation; see validateTheme for the reasons a theme is invalid
  */
 export function isValidTheme(theme: unknown): theme is Theme {
-  if (!theme || typeof theme !== 'object') return false;
-  
-  const t = theme as Theme;
-  return (
-    typeof t.name === 'string' &&
-    t.colors !== undefined &&
-    typeof t.colors === 'object' &&
-    typeof t.colors.primary === 'string' &&
-    typeof t.colors.base100 === 'string'
-  );
-}
\ No newline at end of file
+  return validateTheme(theme).valid;
+}
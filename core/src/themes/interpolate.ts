@@ -0,0 +1,45 @@
+/**
+ * @module themes/interpolate
+ * @description Perceptual interpolation between two themes, used for animated theme changes
+ */
+
+import { Theme } from './types';
+import { getThemePalette } from './adapters';
+import { ColorConverter } from '../utils/colorConverter';
+
+/**
+ * Interpolates every color string of `to` with its counterpart in `from`, keeping the shape of `to`.
+ * @private
+ */
+const interpolateTree = <T>(from: unknown, to: T, progress: number): T => {
+  if (typeof to === 'string') {
+    // OKLab keeps the midpoints as bright and saturated as the ends
+    return (typeof from === 'string' ? ColorConverter.mix(from, to, progress, 'oklab') : to) as T;
+  }
+  if (!to || typeof to !== 'object') return to;
+
+  const source = from && typeof from === 'object' ? (from as Record<string, unknown>) : {};
+  return Object.fromEntries(
+    Object.entries(to).map(([key, value]) => [key, interpolateTree(source[key], value, progress)])
+  ) as T;
+};
+
+/**
+ * @function interpolateTheme
+ * @description Blends two themes in OKLab, color by color, including their palettes
+ * @param {Theme} from - Theme at progress 0
+ * @param {Theme} to - Theme at progress 1, whose name the result carries
+ * @param {number} progress - Position between the themes, from 0 to 1
+ * @returns {Theme} Intermediate theme; `to` itself once progress reaches 1
+ */
+export function interpolateTheme(from: Theme, to: Theme, progress: number): Theme {
+  if (progress >= 1) return to;
+  const amount = Math.max(0, progress);
+
+  return {
+    name: to.name,
+    colors: interpolateTree(from.colors, to.colors, amount),
+    // Palettes are compared in full even when only one theme carries its own
+    palette: interpolateTree(getThemePalette(from), getThemePalette(to), amount),
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { getTheme, hasTheme, registerTheme, themes, unregisterTheme } from './index';
+
+describe('theme registry', () => {
+  test('registers and unregisters custom themes', () => {
+    const brand = { ...themes.nord, name: 'brand' };
+    const dispose = registerTheme(brand);
+    expect(getTheme('brand' as never)).toBe(brand);
+    dispose();
+    expect(hasTheme('brand')).toBe(false);
+  });
+
+  test('restores a built-in theme that a registered theme replaced', () => {
+    const custom = { ...themes.accessible, name: 'nord' };
+    const dispose = registerTheme(custom);
+    expect(getTheme('nord')).toBe(custom);
+    dispose();
+    expect(getTheme('nord')).toBe(themes.nord);
+  });
+
+  test('keeps the latest live registration when disposed out of order', () => {
+    const first = { ...themes.accessible, name: 'nord' };
+    const second = { ...themes.nord, name: 'nord' };
+    const disposeFirst = registerTheme(first);
+    const disposeSecond = registerTheme(second);
+
+    disposeFirst();
+    expect(getTheme('nord')).toBe(second);
+    disposeSecond();
+    expect(getTheme('nord')).toBe(themes.nord);
+    disposeFirst();
+    expect(getTheme('nord')).toBe(themes.nord);
+  });
+
+  test('removes a custom name once all its registrations are disposed', () => {
+    const name = 'stacked' as never;
+    const disposeFirst = registerTheme({ ...themes.nord, name });
+    const disposeSecond = registerTheme({ ...themes.accessible, name });
+
+    disposeSecond();
+    expect(hasTheme(name)).toBe(true);
+    disposeFirst();
+    expect(hasTheme(name)).toBe(false);
+  });
+
+  test('refuses to unregister built-in themes only', () => {
+    expect(() => unregisterTheme('accessible')).toThrow('Cannot unregister built-in theme');
+    expect(unregisterTheme('constructor' as never)).toBe(false);
+  });
+});
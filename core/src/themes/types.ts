@@ -3,6 +3,8 @@
  * @description Common theme type definitions
  */
 
+import type { ThemePalette } from '../types/color';
+
 export interface ThemeColors {
     // Main colors
     primary: string;
@@ -31,7 +33,13 @@ export interface ThemeColors {
     errorContent: string;
   }
   
+  /**
+   * @interface Theme
+   * @description Runtime theme shared by built-in themes, generated themes and ThemeProvider
+   */
   export interface Theme {
     name: string;
     colors: ThemeColors;
+    /** Full color scales; present on generated themes, derived from `colors` otherwise */
+    palette?: ThemePalette;
   }
\ No newline at end of file
@@ -0,0 +1,44 @@
+import { describe, expect, test } from 'bun:test';
+import { validateTheme } from './validate';
+import { themes } from './index';
+
+const withColors = (colors: Record<string, unknown>) => ({
+  ...themes.accessible,
+  colors: { ...themes.accessible.colors, ...colors },
+});
+
+describe('validateTheme', () => {
+  test('accepts the built-in themes', () => {
+    expect(validateTheme(themes.nord)).toMatchObject({ valid: true, errors: [] });
+    expect(validateTheme(themes.accessible)).toMatchObject({ valid: true, errors: [] });
+  });
+
+  test('reports a missing role', () => {
+    const { primary, ...colors } = themes.accessible.colors;
+    const result = validateTheme({ name: 'broken', colors });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContainEqual({ level: 'error', path: 'colors.primary', message: 'Missing color' });
+  });
+
+  test('reports an unparseable color', () => {
+    const result = validateTheme(withColors({ accent: 'not-a-color' }));
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([expect.objectContaining({ path: 'colors.accent' })]);
+  });
+
+  test.each(['constructor', '__proto__', 'color(__proto__ 1 1 1)'])('reports %s as a color error instead of throwing', value => {
+    const result = validateTheme(withColors({ primary: value }));
+    expect(result.errors).toEqual([expect.objectContaining({ path: 'colors.primary' })]);
+  });
+
+  test('warns about a low-contrast pair', () => {
+    const result = validateTheme(withColors({ primary: '#777777', primaryContent: '#888888' }));
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toContainEqual(expect.objectContaining({ level: 'warning', path: 'colors.primaryContent' }));
+  });
+
+  test('rejects values that are not themes', () => {
+    expect(validateTheme(null).errors).toEqual([{ level: 'error', path: '', message: 'Theme must be an object' }]);
+    expect(validateTheme({ name: '', colors: [] }).errors.map(issue => issue.path)).toEqual(['name', 'colors']);
+  });
+});
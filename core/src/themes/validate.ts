@@ -0,0 +1,203 @@
+/**
+ * @module themes/validate
+ * @description Structural, color and contrast validation of themes from untrusted sources
+ */
+
+import { Theme, ThemeColors } from './types';
+import { SemanticColor, ThemePalette } from '../types/color';
+import { depthScale } from '../constants/scales';
+import { auditPair, colorPairs, palettePairs } from '../audit';
+import { ColorConverter } from '../utils/colorConverter';
+
+/**
+ * @interface ThemeValidationIssue
+ * @description A problem found in a theme, addressed by its path, e.g. `colors.errorContent`
+ */
+export interface ThemeValidationIssue {
+  /** `error` makes the theme unusable; `warning` flags a usable but questionable value */
+  level: 'error' | 'warning';
+  path: string;
+  message: string;
+}
+
+/**
+ * @interface ThemeValidationResult
+ * @description Outcome of validateTheme
+ */
+export interface ThemeValidationResult {
+  /** Whether the theme has no errors; warnings do not make it invalid */
+  valid: boolean;
+  errors: ThemeValidationIssue[];
+  warnings: ThemeValidationIssue[];
+}
+
+const THEME_COLOR_ROLES = Object.keys({
+  primary: true,
+  primaryContent: true,
+  secondary: true,
+  secondaryContent: true,
+  accent: true,
+  accentContent: true,
+  neutral: true,
+  neutralContent: true,
+  base100: true,
+  base200: true,
+  base300: true,
+  baseContent: true,
+  info: true,
+  infoContent: true,
+  success: true,
+  successContent: true,
+  warning: true,
+  warningContent: true,
+  error: true,
+  errorContent: true,
+} satisfies Record<keyof ThemeColors, true>) as (keyof ThemeColors)[];
+
+const SEMANTIC_VARIANTS = Object.keys({
+  base: true,
+  light: true,
+  dark: true,
+  bg: true,
+  text: true,
+} satisfies Record<keyof SemanticColor, true>);
+
+/** Palette groups of color strings, with the keys each must have */
+const PALETTE_GROUPS: Record<string, { keys: string[]; optional?: boolean }> = {
+  primary: { keys: depthScale.steps.map(String) },
+  secondary: { keys: depthScale.steps.map(String), optional: true },
+  accent: { keys: depthScale.steps.map(String) },
+  neutral: { keys: depthScale.steps.map(String) },
+  background: { keys: Object.keys({ default: true, paper: true, elevated: true } satisfies Record<keyof ThemePalette['background'], true>) },
+  text: { keys: Object.keys({ primary: true, secondary: true, disabled: true, inverse: true } satisfies Record<keyof ThemePalette['text'], true>) },
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a color, reporting any failure, even an unexpected exception, as a reason.
+ * @private
+ */
+const getParseError = (value: string): string | null => {
+  try {
+    const parsed = ColorConverter.parse(value);
+    return parsed.ok ? null : parsed.error.reason;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * Checks that every key of a group holds a parseable color, reporting unknown keys as warnings.
+ * @private
+ */
+const checkColors = (
+  group: Record<string, unknown>,
+  keys: string[],
+  path: string,
+  issues: ThemeValidationIssue[]
+): void => {
+  for (const key of keys) {
+    const value = group[key];
+    if (value === undefined) {
+      issues.push({ level: 'error', path: `${path}.${key}`, message: 'Missing color' });
+    } else if (typeof value !== 'string') {
+      issues.push({ level: 'error', path: `${path}.${key}`, message: `Expected a color string, got ${typeof value}` });
+    } else {
+      const reason = getParseError(value);
+      if (reason) {
+        issues.push({ level: 'error', path: `${path}.${key}`, message: `"${value}" is not a color: ${reason}` });
+      }
+    }
+  }
+  for (const key of Object.keys(group)) {
+    if (!keys.includes(key)) {
+      issues.push({ level: 'warning', path: `${path}.${key}`, message: 'Unknown key is ignored' });
+    }
+  }
+};
+
+/**
+ * Checks the optional scale-based palette.
+ * @private
+ */
+const checkPalette = (palette: unknown, issues: ThemeValidationIssue[]): void => {
+  if (!isObject(palette)) {
+    issues.push({ level: 'error', path: 'palette', message: 'Expected an object' });
+    return;
+  }
+
+  for (const [name, { keys, optional }] of Object.entries(PALETTE_GROUPS)) {
+    const group = palette[name];
+    if (group === undefined && optional) continue;
+    if (!isObject(group)) {
+      issues.push({ level: 'error', path: `palette.${name}`, message: group === undefined ? 'Missing' : 'Expected an object' });
+      continue;
+    }
+    checkColors(group, keys, `palette.${name}`, issues);
+  }
+
+  const semantic = palette.semantic;
+  if (!isObject(semantic)) {
+    issues.push({ level: 'error', path: 'palette.semantic', message: semantic === undefined ? 'Missing' : 'Expected an object' });
+    return;
+  }
+  for (const role of ['success', 'warning', 'error', 'info']) {
+    const color = semantic[role];
+    if (!isObject(color)) {
+      issues.push({ level: 'error', path: `palette.semantic.${role}`, message: color === undefined ? 'Missing' : 'Expected an object' });
+      continue;
+    }
+    checkColors(color, SEMANTIC_VARIANTS, `palette.semantic.${role}`, issues);
+  }
+};
+
+/**
+ * @function validateTheme
+ * @description Validates a theme from an untrusted source, such as storage or an import. Errors
+ * cover the structure and unparseable colors of every role in `colors` and, when present, the
+ * palette; warnings cover unknown keys and content pairs below WCAG AA contrast.
+ * @param {unknown} theme - Value to validate
+ * @returns {ThemeValidationResult} Errors and warnings addressed by theme path
+ */
+export function validateTheme(theme: unknown): ThemeValidationResult {
+  const issues: ThemeValidationIssue[] = [];
+
+  if (!isObject(theme)) {
+    issues.push({ level: 'error', path: '', message: 'Theme must be an object' });
+  } else {
+    if (typeof theme.name !== 'string' || theme.name.trim() === '') {
+      issues.push({ level: 'error', path: 'name', message: 'Expected a non-empty string' });
+    }
+
+    if (!isObject(theme.colors)) {
+      issues.push({ level: 'error', path: 'colors', message: theme.colors === undefined ? 'Missing' : 'Expected an object' });
+    } else {
+      checkColors(theme.colors, THEME_COLOR_ROLES, 'colors', issues);
+    }
+
+    if (theme.palette !== undefined) {
+      checkPalette(theme.palette, issues);
+    }
+  }
+
+  // Contrast is only measured once every color is known to parse
+  if (!issues.some(issue => issue.level === 'error')) {
+    const valid = theme as unknown as Theme;
+    const pairs = [...colorPairs, ...(valid.palette ? palettePairs : [])].filter(pair => pair.usage === 'text');
+    for (const pair of pairs) {
+      const result = auditPair(valid, pair);
+      if (result && !result.passes) {
+        issues.push({
+          level: 'warning',
+          path: pair.foreground,
+          message: `Contrast on ${pair.background} is ${result.wcag.value.toFixed(2)}:1, below ${result.wcag.required}:1`,
+        });
+      }
+    }
+  }
+
+  const errors = issues.filter(issue => issue.level === 'error');
+  return { valid: errors.length === 0, errors, warnings: issues.filter(issue => issue.level === 'warning') };
+}
@@ -4,72 +4,75 @@
  */
 
 /**
- * @interface ColorDepth
- * @description Represents different shades of a color from lightest (50) to darkest (900)
+ * @type ScaleStep
+ * @description Name of a step in a color scale, such as 500 or "subtle"
  */
-export interface ColorDepth {
-    /** Lightest shade - typically used for backgrounds */
-    50: string;
-    /** Very light shade - commonly used for hover states on light backgrounds */
-    100: string;
-    /** Light shade - used for subtle backgrounds */
-    200: string;
-    /** Medium-light shade - used for borders and dividers */
-    300: string;
-    /** Medium shade - used for secondary text */
-    400: string;
-    /** Base shade - primary brand color */
-    500: string;
-    /** Medium-dark shade - used for hover states */
-    600: string;
-    /** Dark shade - used for active states */
-    700: string;
-    /** Very dark shade - used for text on light backgrounds */
-    800: string;
-    /** Darkest shade - used for high contrast text */
-    900: string;
-  }
-  
-  /**
-   * @interface SemanticColor
-   * @description Standard semantic color roles
-   */
-  export interface SemanticColor {
-    /** Main color for primary actions */
-    base: string;
-    /** Lighter version for hover states */
-    light: string;
-    /** Darker version for active states */
-    dark: string;
-    /** Very light version for backgrounds */
-    bg: string;
-    /** Contrasting text color */
-    text: string;
-  }
-  
+export type ScaleStep = string | number;
+
+/**
+ * @type ColorScale
+ * @description Hex color for every step of a scale spec
+ */
+export type ColorScale<Step extends ScaleStep = ScaleStep> = { [K in Step]: string };
+
+/**
+ * @type ScaleEasing
+ * @description Spacing of curve values between the first and last step; functions map 0–1 onto 0–1
+ */
+export type ScaleEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | ((t: number) => number);
+
+/**
+ * @interface ScaleCurve
+ * @description Values interpolated from the first (lightest) to the last (darkest) step
+ */
+export interface ScaleCurve {
+  from: number;
+  to: number;
+  /** Defaults to linear */
+  easing?: ScaleEasing;
+}
+
+/**
+ * @type ScaleValues
+ * @description Explicit value per step, or a curve across all steps
+ */
+export type ScaleValues<Step extends ScaleStep> = Record<Step, number> | ScaleCurve;
+
+/**
+ * @interface ScaleSpec
+ * @description Definition of a color scale: its steps and how light and saturated each one is
+ */
+export interface ScaleSpec<Step extends ScaleStep = ScaleStep> {
+  /** Step names, lightest first */
+  steps: readonly Step[];
+  /** OKLCH lightness (0–1) of each step */
+  lightness?: ScaleValues<Step>;
   /**
-   * @interface AccessibilityInfo
-   * @description WCAG contrast and accessibility information
+   * WCAG contrast ratio of each step against `contrastAgainst`; takes precedence over `lightness`.
+   * Contrast targets are met exactly, so the input color replaces the anchor step without
+   * stretching the neighbouring steps.
    */
-  export interface AccessibilityInfo {
-    /** Contrast ratio with white */
-    contrastWithWhite: number;
-    /** Contrast ratio with black */
-    contrastWithBlack: number;
-    /** Whether the color passes WCAG AA for normal text */
-    passesAA: boolean;
-    /** Whether the color passes WCAG AAA for normal text */
-    passesAAA: boolean;
-  }/**
- * @module types/color
- * @description Type definitions for the color system
+  contrast?: ScaleValues<Step>;
+  /** Background the contrast targets are measured against, defaults to white */
+  contrastAgainst?: 'white' | 'black';
+  /** Share of the input chroma kept at each step (1 keeps it unchanged) */
+  chroma?: ScaleValues<Step>;
+  /** Step the input color is placed at by default */
+  anchor?: Step;
+}
+
+/**
+ * @type DepthStep
+ * @description Steps of the default ColorDepth scale
  */
+export type DepthStep = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
 
 /**
  * @interface ColorDepth
- * @description Represents different shades of a color from lightest (50) to darkest (900)
+ * @description Represents different shades of a color from lightest (50) to darkest (900);
+ * the scale generated by the default `depth` preset
  */
-export interface ColorDepth {
+export interface ColorDepth extends ColorScale<DepthStep> {
     /** Lightest shade - typically used for backgrounds */
     50: string;
     /** Very light shade - commonly used for hover states on light backgrounds */
@@ -124,12 +127,20 @@ export interface ColorDepth {
     passesAAA: boolean;
   }
 
-  /**
- * @interface Theme
- * @description Complete theme definition including all color variations
+/**
+ * @type SemanticRole
+ * @description Semantic state roles of a palette
+ */
+export type SemanticRole = 'success' | 'warning' | 'error' | 'info';
+
+/**
+ * @interface ThemePalette
+ * @description Scale-based palette including all color variations, as produced by ThemeGenerator
  */
-export interface Theme {
+export interface ThemePalette {
   primary: ColorDepth;
+  /** Optional for palettes built before secondary scales existed; consumers fall back to `primary[700]` */
+  secondary?: ColorDepth;
   accent: ColorDepth;
   neutral: ColorDepth;
   semantic: {
@@ -149,4 +160,168 @@ export interface Theme {
     disabled: string;
     inverse: string;
   };
-}
\ No newline at end of file
+}
+/**
+ * @interface RGB
+ * @description RGB color representation, channels from 0 to 255
+ */
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * @interface HSL
+ * @description HSL color representation, hue in degrees, saturation and lightness from 0 to 100
+ */
+export interface HSL {
+  h: number;
+  s: number;
+  l: number;
+}
+
+/**
+ * @interface OKLab
+ * @description OKLab color, lightness from 0 to 1
+ */
+export interface OKLab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * @interface OKLCH
+ * @description OKLCH color, lightness from 0 to 1, chroma from 0 (about 0.4 at most in sRGB), hue in degrees
+ */
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/**
+ * @type ColorFormat
+ * @description Syntax a color string was written in
+ */
+export type ColorFormat =
+  | 'hex'
+  | 'named'
+  | 'rgb'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'color';
+
+/**
+ * @interface ParsedColor
+ * @description A parsed CSS color converted to sRGB
+ */
+export interface ParsedColor extends RGB {
+  /** Opacity from 0 to 1 */
+  alpha: number;
+  /** Syntax of the source string */
+  format: ColorFormat;
+  /** Whether the source color lay outside sRGB and its channels were clipped */
+  clipped: boolean;
+}
+
+/**
+ * @type ColorInput
+ * @description A CSS color string, or sRGB channels from 0 to 255 with an optional alpha, such as a ParsedColor
+ */
+export type ColorInput = string | (RGB & { alpha?: number });
+
+/**
+ * @type ColorMixSpace
+ * @description Space two colors are mixed in, named as in CSS `color-mix()`
+ */
+export type ColorMixSpace = 'srgb' | 'srgb-linear' | 'oklab';
+
+/**
+ * @interface ColorParseError
+ * @description Why a string could not be parsed as a color
+ */
+export interface ColorParseError {
+  input: string;
+  reason: string;
+}
+
+/**
+ * @type ColorParseResult
+ * @description Outcome of parsing a color string
+ */
+export type ColorParseResult =
+  | { ok: true; color: ParsedColor }
+  | { ok: false; error: ColorParseError };
+
+/**
+ * @type ColorModifier
+ * @description Descriptive word adjusting a color's lightness, saturation or temperature
+ */
+export type ColorModifier =
+  | 'light'
+  | 'pale'
+  | 'dark'
+  | 'deep'
+  | 'muted'
+  | 'vivid'
+  | 'pastel'
+  | 'dusty'
+  | 'warm'
+  | 'cool';
+
+/**
+ * @interface ColorPhraseStep
+ * @description One step of resolving a color phrase
+ */
+export interface ColorPhraseStep {
+  /** Word as written in the phrase, e.g. `warmer` */
+  word: string;
+  /** Modifier applied, absent for the base color */
+  modifier?: ColorModifier;
+  /** Strength of the modifier: 0.5 after "a bit" or "slightly", 1.5 after "very" */
+  amount: number;
+  /** Color after this step */
+  hex: string;
+  /** What the step did, e.g. `muted: chroma 0.09 → 0.05` */
+  description: string;
+}
+
+/**
+ * @type ColorPhraseResult
+ * @description Outcome of resolving a color phrase such as "pastel pink, a bit warmer"
+ */
+export type ColorPhraseResult =
+  | { ok: true; hex: string; steps: ColorPhraseStep[]; explanation: string }
+  | { ok: false; error: ColorParseError };
+
+/**
+ * @type ContrastTarget
+ * @description Minimum contrast a color must reach: a WCAG 2.1 ratio (4.5 for AA, 7 for AAA)
+ * or an absolute APCA Lc value (e.g. 60 for body text, 75 for fluent text, 90 for preferred)
+ */
+export type ContrastTarget = { wcag: number } | { apca: number };
+
+/**
+ * @interface ContrastSolution
+ * @description Color found by the contrast solver
+ */
+export interface ContrastSolution {
+  /** Hex color */
+  color: string;
+  /** Contrast reached, as a WCAG ratio or an absolute APCA Lc depending on the target */
+  contrast: number;
+  /** Whether the target was met; when it cannot be met the highest-contrast color is returned */
+  passes: boolean;
+}
+
+/**
+ * @type ColorVisionDeficiency
+ * @description Color vision deficiencies that can be simulated
+ */
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
@@ -1,49 +1,97 @@
 /**
  * @module utils/colorConverter
- * @description Color format conversion utilities
+ * @description Color format conversion, manipulation and accessibility utilities
  */
 
-import { AccessibilityInfo } from '../types/color';
+import {
+  AccessibilityInfo,
+  ColorInput,
+  ColorMixSpace,
+  ColorParseResult,
+  ColorVisionDeficiency,
+  HSL,
+  OKLab,
+  OKLCH,
+  RGB,
+} from '../types/color';
+import { parseColor } from './colorParser';
+import {
+  Vec3,
+  ciede2000,
+  linearSrgbToOklab,
+  linearSrgbToXyz,
+  linearToSrgb,
+  oklabToLinearSrgb,
+  polarToRectangular,
+  rectangularToPolar,
+  simulateDeficiency,
+  srgbToLinear,
+  xyzD50ToLab,
+  xyzD65ToD50,
+} from './colorSpaces';
 
-/**
- * @interface RGB
- * @description RGB color representation
- */
-interface RGB {
-  r: number;
-  g: number;
-  b: number;
-}
+/** Chroma below which a color is treated as gray and its hue as meaningless */
+const ACHROMATIC_CHROMA = 1e-4;
 
-/**
- * @interface HSL
- * @description HSL color representation
- */
-interface HSL {
-  h: number;
-  s: number;
-  l: number;
-}
+/** Constants of the APCA 0.0.98G-4g contrast algorithm */
+const APCA = {
+  mainTRC: 2.4,
+  coefficients: [0.2126729, 0.7151522, 0.072175],
+  normBg: 0.56,
+  normText: 0.57,
+  revText: 0.62,
+  revBg: 0.65,
+  blackThreshold: 0.022,
+  blackClamp: 1.414,
+  scale: 1.14,
+  offset: 0.027,
+  lowClip: 0.1,
+  deltaYMin: 0.0005,
+};
 
 /**
  * @class ColorConverter
- * @description Handles color format conversions and accessibility calculations
+ * @description Handles color format conversions, color manipulation and accessibility calculations.
+ * Manipulation methods accept color strings or parsed colors and return hex strings, with eight
+ * digits when the result is translucent.
  */
 export class ColorConverter {
   /**
-   * Converts a hex color to RGB format
-   * @param hex - Hex color string (e.g., "#FF0000")
+   * Parses any CSS color string
+   * @param input - Color string (e.g., "#F00", "rgb(255 0 0 / 50%)", "oklch(62% 0.25 29)", "red")
+   * @returns Parsed sRGB color, or a structured parse error
+   */
+  static parse(input: string): ColorParseResult {
+    return parseColor(input);
+  }
+
+  /**
+   * Converts a color to RGB format
+   * @param hex - Hex color string (e.g., "#FF0000") or any other CSS color
    * @returns RGB color object
+   * @throws If the input is not a valid color
    */
   static hexToRgb(hex: string): RGB {
-    const normalized = hex.charAt(0) === '#' ? hex.substring(1) : hex;
-    const r = parseInt(normalized.substring(0, 2), 16);
-    const g = parseInt(normalized.substring(2, 4), 16);
-    const b = parseInt(normalized.substring(4, 6), 16);
-    
+    const { r, g, b } = this.resolve(hex);
     return { r, g, b };
   }
 
+  /**
+   * Converts any color to a six-digit hex string, dropping alpha unless asked to keep it
+   * @param color - Color string or parsed color; six-digit hex input is returned unchanged
+   * @param options - `alpha: true` writes translucent colors as eight-digit hex
+   * @returns Hex color string, which parses back to the same color within rounding
+   * @throws If the input is not a valid color
+   */
+  static toHex(color: ColorInput, { alpha = false }: { alpha?: boolean } = {}): string {
+    if (typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color)) return color;
+
+    const { r, g, b, alpha: opacity } = this.resolve(color);
+    const hex = this.rgbToHex(r, g, b);
+    const alphaByte = Math.round(opacity * 255);
+    return alpha && alphaByte < 255 ? hex + alphaByte.toString(16).padStart(2, '0') : hex;
+  }
+
   /**
    * Converts RGB values to HSL format
    * @param rgb - RGB color object
@@ -130,6 +178,223 @@ export class ColorConverter {
       .join('');
   }
 
+  /**
+   * Converts RGB values to OKLab
+   * @param rgb - RGB color object (0-255)
+   * @returns OKLab color
+   */
+  static rgbToOklab({ r, g, b }: RGB): OKLab {
+    const [l, a, bb] = linearSrgbToOklab([r, g, b].map(c => srgbToLinear(c / 255)) as Vec3);
+    return { l, a, b: bb };
+  }
+
+  /**
+   * Converts OKLab to RGB values without clipping, so channels may fall outside 0-255
+   * @param lab - OKLab color
+   * @returns RGB color object
+   */
+  static oklabToRgb({ l, a, b }: OKLab): RGB {
+    const [r, g, bb] = oklabToLinearSrgb([l, a, b]).map(c => linearToSrgb(c) * 255);
+    return { r, g, b: bb };
+  }
+
+  /**
+   * Converts RGB values to OKLCH
+   * @param rgb - RGB color object (0-255)
+   * @returns OKLCH color; the hue of grays is 0
+   */
+  static rgbToOklch(rgb: RGB): OKLCH {
+    const { l, a, b } = this.rgbToOklab(rgb);
+    const [, c, h] = rectangularToPolar([l, a, b]);
+    return { l, c, h: c < ACHROMATIC_CHROMA ? 0 : h };
+  }
+
+  /**
+   * Converts OKLCH to RGB values without clipping
+   * @param oklch - OKLCH color
+   * @returns RGB color object
+   */
+  static oklchToRgb({ l, c, h }: OKLCH): RGB {
+    const [, a, b] = polarToRectangular([l, c, h]);
+    return this.oklabToRgb({ l, a, b });
+  }
+
+  /**
+   * Checks whether RGB channels lie within the sRGB gamut
+   * @param rgb - RGB color object
+   * @returns Whether every channel is within 0-255, allowing half a step of rounding
+   */
+  static isInGamut({ r, g, b }: RGB): boolean {
+    return [r, g, b].every(c => c >= -0.5 && c <= 255.5);
+  }
+
+  /**
+   * Maps an OKLCH color into sRGB by reducing chroma while keeping lightness and hue
+   * @param oklch - OKLCH color
+   * @returns The closest in-gamut color with the same lightness and hue
+   */
+  static toGamut(oklch: OKLCH): OKLCH {
+    const l = Math.min(1, Math.max(0, oklch.l));
+    if (this.isInGamut(this.oklchToRgb({ ...oklch, l }))) return { ...oklch, l };
+
+    let low = 0;
+    let high = oklch.c;
+    while (high - low > 1e-4) {
+      const mid = (low + high) / 2;
+      if (this.isInGamut(this.oklchToRgb({ l, c: mid, h: oklch.h }))) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    return { l, c: low, h: oklch.h };
+  }
+
+  /**
+   * Converts a hex color to OKLCH
+   * @param hex - Hex color string or any CSS color
+   * @returns OKLCH color
+   */
+  static hexToOklch(hex: string): OKLCH {
+    return this.rgbToOklch(this.hexToRgb(hex));
+  }
+
+  /**
+   * Converts OKLCH to a hex string, reducing chroma first if the color is outside sRGB
+   * @param oklch - OKLCH color
+   * @returns Hex color string
+   */
+  static oklchToHex(oklch: OKLCH): string {
+    const { r, g, b } = this.oklchToRgb(this.toGamut(oklch));
+    return this.rgbToHex(r, g, b);
+  }
+
+  /**
+   * Mixes two colors, like CSS `color-mix()`
+   * @description Alpha is premultiplied, so a transparent color adds no hue to the mix. OKLab
+   * keeps midpoints as light and saturated as the ends; sRGB matches most design tools; linear
+   * sRGB mixes light physically, e.g. for simulating blur or overlap.
+   * @param color1 - Color string or parsed color
+   * @param color2 - Color string or parsed color
+   * @param amount - Share of the second color, from 0 to 1, defaults to 0.5
+   * @param space - Space to mix in, defaults to `oklab`
+   * @returns Hex color string; OKLab mixes outside sRGB lose chroma until they fit
+   */
+  static mix(color1: ColorInput, color2: ColorInput, amount = 0.5, space: ColorMixSpace = 'oklab'): string {
+    const from = this.resolve(color1);
+    const to = this.resolve(color2);
+    const t = Math.min(1, Math.max(0, amount));
+    const alpha = from.alpha + (to.alpha - from.alpha) * t;
+    const start = this.toMixSpace(from, space);
+    const end = this.toMixSpace(to, space);
+
+    const mixed = start.map((value, i) => {
+      if (alpha === 0) return value + (end[i] - value) * t;
+      return (value * from.alpha + (end[i] * to.alpha - value * from.alpha) * t) / alpha;
+    }) as Vec3;
+    return this.toHex({ ...this.fromMixSpace(mixed, space), alpha }, { alpha: true });
+  }
+
+  /**
+   * Raises the OKLCH lightness of a color, keeping its hue
+   * @param color - Color string or parsed color
+   * @param amount - Lightness to add, from 0 to 1, defaults to 0.1
+   * @returns Hex color string, with chroma reduced if needed to stay in sRGB
+   */
+  static lighten(color: ColorInput, amount = 0.1): string {
+    return this.adjustOklch(color, ({ l, c, h }) => ({ l: l + amount, c, h }));
+  }
+
+  /**
+   * Lowers the OKLCH lightness of a color, keeping its hue
+   * @param color - Color string or parsed color
+   * @param amount - Lightness to remove, from 0 to 1, defaults to 0.1
+   * @returns Hex color string
+   */
+  static darken(color: ColorInput, amount = 0.1): string {
+    return this.lighten(color, -amount);
+  }
+
+  /**
+   * Scales the OKLCH chroma of a color, keeping its lightness and hue; grays stay gray
+   * @param color - Color string or parsed color
+   * @param amount - Relative change, e.g. 0.2 for 20% more chroma, defaults to 0.2
+   * @returns Hex color string, with chroma limited to what sRGB can show
+   */
+  static saturate(color: ColorInput, amount = 0.2): string {
+    return this.adjustOklch(color, ({ l, c, h }) => ({ l, c: Math.max(0, c * (1 + amount)), h }));
+  }
+
+  /**
+   * Scales down the OKLCH chroma of a color; an amount of 1 gives the gray of the same lightness
+   * @param color - Color string or parsed color
+   * @param amount - Relative change, from 0 to 1, defaults to 0.2
+   * @returns Hex color string
+   */
+  static desaturate(color: ColorInput, amount = 0.2): string {
+    return this.saturate(color, -amount);
+  }
+
+  /**
+   * Sets the opacity of a color
+   * @param color - Color string or parsed color
+   * @param alpha - Opacity from 0 to 1
+   * @returns Hex color string, eight digits unless opaque
+   */
+  static withAlpha(color: ColorInput, alpha: number): string {
+    return this.toHex({ ...this.resolve(color), alpha: Math.min(1, Math.max(0, alpha)) }, { alpha: true });
+  }
+
+  /**
+   * Composites a color over a background, as the browser paints it
+   * @param foreground - Color string or parsed color, usually translucent
+   * @param background - Color string or parsed color below it
+   * @returns Hex color string of the result, opaque when the background is
+   */
+  static composite(foreground: ColorInput, background: ColorInput): string {
+    return this.toHex(this.compositeColors(this.resolve(foreground), this.resolve(background)), { alpha: true });
+  }
+
+  /**
+   * Simulates how a color appears with a color vision deficiency
+   * @param color - Hex color string or any CSS color
+   * @param deficiency - Deficiency to simulate
+   * @param severity - From 0 (normal vision) to 1 (full dichromacy or monochromacy), defaults to 1
+   * @returns Simulated hex color
+   */
+  static simulateColorVision(color: string, deficiency: ColorVisionDeficiency, severity = 1): string {
+    const { r, g, b } = this.hexToRgb(color);
+    const linear = [r, g, b].map(c => srgbToLinear(c / 255)) as Vec3;
+    const [sr, sg, sb] = simulateDeficiency(linear, deficiency, severity).map(c => linearToSrgb(c) * 255);
+    return this.rgbToHex(sr, sg, sb);
+  }
+
+  /**
+   * Calculates the CIEDE2000 difference between two colors, ignoring alpha
+   * @param color1 - Color string or parsed color
+   * @param color2 - Color string or parsed color
+   * @returns ΔE2000; about 2 is just noticeable side by side, above 10 reads as a different color
+   */
+  static deltaE2000(color1: ColorInput, color2: ColorInput): number {
+    const toLab = (color: ColorInput) => {
+      const { r, g, b } = this.resolve(color);
+      return xyzD50ToLab(xyzD65ToD50(linearSrgbToXyz([r, g, b].map(c => srgbToLinear(c / 255)) as Vec3)));
+    };
+    return ciede2000(toLab(color1), toLab(color2));
+  }
+
+  /**
+   * Calculates the Euclidean distance between two colors in OKLab, ignoring alpha
+   * @param color1 - Color string or parsed color
+   * @param color2 - Color string or parsed color
+   * @returns ΔEOK; about 0.02 is just noticeable
+   */
+  static deltaEOK(color1: ColorInput, color2: ColorInput): number {
+    const lab1 = this.rgbToOklab(this.resolve(color1));
+    const lab2 = this.rgbToOklab(this.resolve(color2));
+    return Math.hypot(lab1.l - lab2.l, lab1.a - lab2.a, lab1.b - lab2.b);
+  }
+
   /**
    * Calculates accessibility metrics for a color
    * @param hex - Hex color string
@@ -150,6 +415,142 @@ export class ColorConverter {
     };
   }
 
+  /**
+   * Calculates the WCAG 2.1 contrast ratio between two colors
+   * @param foreground - Color string or parsed color; a translucent one is composited over the background
+   * @param background - Color string or parsed color, taken as opaque
+   * @returns Contrast ratio from 1 to 21; for opaque colors the order does not matter
+   */
+  static getContrastRatio(foreground: ColorInput, background: ColorInput): number {
+    const [text, surface] = this.resolvePair(foreground, background);
+    return this.calculateContrast(this.calculateLuminance(text), this.calculateLuminance(surface));
+  }
+
+  /**
+   * Calculates the APCA lightness contrast (Lc) of text on a background
+   * @description Implements APCA-W3 0.0.98G-4g; unlike WCAG 2.1 the result depends on which
+   * color is the text
+   * @param text - Text color string or parsed color; a translucent one is composited over the background
+   * @param background - Background color string or parsed color, taken as opaque
+   * @returns Lc from about -108 to 106; positive for dark text on light backgrounds,
+   * negative for light text on dark backgrounds
+   */
+  static getApcaContrast(text: ColorInput, background: ColorInput): number {
+    const [textRgb, backgroundRgb] = this.resolvePair(text, background);
+    const textY = this.calculateApcaLuminance(textRgb);
+    const backgroundY = this.calculateApcaLuminance(backgroundRgb);
+
+    if (Math.abs(backgroundY - textY) < APCA.deltaYMin) return 0;
+
+    if (backgroundY > textY) {
+      const sapc = (Math.pow(backgroundY, APCA.normBg) - Math.pow(textY, APCA.normText)) * APCA.scale;
+      return sapc < APCA.lowClip ? 0 : (sapc - APCA.offset) * 100;
+    }
+    const sapc = (Math.pow(backgroundY, APCA.revBg) - Math.pow(textY, APCA.revText)) * APCA.scale;
+    return sapc > -APCA.lowClip ? 0 : (sapc + APCA.offset) * 100;
+  }
+
+  /**
+   * Reads a color string or parsed color as RGB channels and an opacity
+   * @private
+   * @param {ColorInput} color - Color string or parsed color
+   * @returns {RGB & { alpha: number }} Channels from 0 to 255 and alpha from 0 to 1
+   * @throws If a string is not a valid color
+   */
+  private static resolve(color: ColorInput): RGB & { alpha: number } {
+    if (typeof color !== 'string') {
+      const { r, g, b, alpha = 1 } = color;
+      return { r, g, b, alpha: Math.min(1, Math.max(0, alpha)) };
+    }
+
+    const result = parseColor(color);
+    if (!result.ok) {
+      throw new Error(`Invalid color "${color}": ${result.error.reason}`);
+    }
+    const { r, g, b, alpha } = result.color;
+    return { r, g, b, alpha };
+  }
+
+  /**
+   * Resolves a foreground and an opaque background, with the foreground composited over it
+   * @private
+   * @param {ColorInput} foreground - Color string or parsed color
+   * @param {ColorInput} background - Color string or parsed color
+   * @returns {[RGB, RGB]} The colors as they are seen
+   */
+  private static resolvePair(foreground: ColorInput, background: ColorInput): [RGB, RGB] {
+    const surface = { ...this.resolve(background), alpha: 1 };
+    return [this.compositeColors(this.resolve(foreground), surface), surface];
+  }
+
+  /**
+   * Composites one color over another with the source-over operator, in sRGB as browsers do
+   * @private
+   * @param {RGB & { alpha: number }} top - Upper color
+   * @param {RGB & { alpha: number }} bottom - Lower color
+   * @returns {RGB & { alpha: number }} Composited color
+   */
+  private static compositeColors(
+    top: RGB & { alpha: number },
+    bottom: RGB & { alpha: number }
+  ): RGB & { alpha: number } {
+    const alpha = top.alpha + bottom.alpha * (1 - top.alpha);
+    if (alpha === 0) return { r: 0, g: 0, b: 0, alpha: 0 };
+
+    const channel = (key: keyof RGB) =>
+      (top[key] * top.alpha + bottom[key] * bottom.alpha * (1 - top.alpha)) / alpha;
+    return { r: channel('r'), g: channel('g'), b: channel('b'), alpha };
+  }
+
+  /**
+   * Converts RGB channels to the coordinates of a mixing space
+   * @private
+   * @param {RGB} rgb - RGB color object
+   * @param {ColorMixSpace} space - Mixing space
+   * @returns {Vec3} Coordinates in the space
+   */
+  private static toMixSpace({ r, g, b }: RGB, space: ColorMixSpace): Vec3 {
+    const srgb = [r, g, b].map(c => c / 255) as Vec3;
+    if (space === 'srgb') return srgb;
+
+    const linear = srgb.map(srgbToLinear) as Vec3;
+    return space === 'srgb-linear' ? linear : linearSrgbToOklab(linear);
+  }
+
+  /**
+   * Converts coordinates of a mixing space back to RGB channels, mapping OKLab into sRGB
+   * @private
+   * @param {Vec3} coordinates - Coordinates in the space
+   * @param {ColorMixSpace} space - Mixing space
+   * @returns {RGB} RGB color object
+   */
+  private static fromMixSpace(coordinates: Vec3, space: ColorMixSpace): RGB {
+    const [x, y, z] = coordinates;
+    if (space === 'srgb') return { r: x * 255, g: y * 255, b: z * 255 };
+    if (space === 'srgb-linear') {
+      const [r, g, b] = coordinates.map(c => linearToSrgb(c) * 255);
+      return { r, g, b };
+    }
+
+    const rgb = this.oklabToRgb({ l: x, a: y, b: z });
+    if (this.isInGamut(rgb)) return rgb;
+    const [l, c, h] = rectangularToPolar(coordinates);
+    return this.oklchToRgb(this.toGamut({ l, c, h }));
+  }
+
+  /**
+   * Transforms a color in OKLCH, keeping its alpha and mapping the result into sRGB
+   * @private
+   * @param {ColorInput} color - Color string or parsed color
+   * @param {(oklch: OKLCH) => OKLCH} transform - Change to apply
+   * @returns {string} Hex color string
+   */
+  private static adjustOklch(color: ColorInput, transform: (oklch: OKLCH) => OKLCH): string {
+    const { alpha, ...rgb } = this.resolve(color);
+    const adjusted = this.oklchToRgb(this.toGamut(transform(this.rgbToOklch(rgb))));
+    return this.toHex({ ...adjusted, alpha }, { alpha: true });
+  }
+
   /**
    * Calculates relative luminance of an RGB color
    * @private
@@ -165,6 +566,20 @@ export class ColorConverter {
     return 0.2126 * rs + 0.7152 * gs + 0.0722 * bs;
   }
 
+  /**
+   * Calculates the screen luminance APCA uses, with the soft clamp for near-black colors
+   * @private
+   * @param {RGB} rgb - RGB color object
+   * @returns {number} Estimated screen luminance
+   */
+  private static calculateApcaLuminance({ r, g, b }: RGB): number {
+    const y = [r, g, b].reduce(
+      (sum, c, i) => sum + Math.pow(c / 255, APCA.mainTRC) * APCA.coefficients[i],
+      0
+    );
+    return y < APCA.blackThreshold ? y + Math.pow(APCA.blackThreshold - y, APCA.blackClamp) : y;
+  }
+
   /**
    * Calculates contrast ratio between two luminance values
    * @private
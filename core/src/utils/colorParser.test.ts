@@ -0,0 +1,31 @@
+import { describe, expect, test } from 'bun:test';
+import { parseColor } from './colorParser';
+
+describe('parseColor', () => {
+  test('parses hex, named and functional colors', () => {
+    expect(parseColor('#f00')).toMatchObject({ ok: true, color: { r: 255, g: 0, b: 0, alpha: 1, format: 'hex' } });
+    expect(parseColor('RebeccaPurple')).toMatchObject({ ok: true, color: { r: 102, g: 51, b: 153, format: 'named' } });
+    expect(parseColor('rgb(255 0 0 / 50%)')).toMatchObject({ ok: true, color: { r: 255, alpha: 0.5, format: 'rgb' } });
+    expect(parseColor('color(srgb 0 0 1)')).toMatchObject({ ok: true, color: { format: 'color', clipped: false } });
+  });
+
+  test('rejects invalid input with a reason', () => {
+    expect(parseColor('#ggg')).toMatchObject({ ok: false, error: { input: '#ggg' } });
+    expect(parseColor('rgb(1, 2)')).toMatchObject({ ok: false });
+  });
+
+  test.each(['constructor', '__proto__', 'toString', 'hasOwnProperty'])(
+    'does not read the prototype for the name %s',
+    name => {
+      expect(parseColor(name)).toMatchObject({ ok: false, error: { input: name } });
+    }
+  );
+
+  test.each(['__proto__', 'constructor', 'toString'])(
+    'does not read the prototype for the color space %s',
+    space => {
+      const result = parseColor(`color(${space} 1 1 1)`);
+      expect(result).toMatchObject({ ok: false, error: { reason: `unsupported color space "${space.toLowerCase()}"` } });
+    }
+  );
+});
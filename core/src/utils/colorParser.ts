@@ -0,0 +1,242 @@
+/**
+ * @module utils/colorParser
+ * @description CSS color string parser (CSS Color Module Level 4)
+ */
+
+import { ColorFormat, ColorParseResult } from '../types/color';
+import { cssNamedColors } from '../constants/cssColors';
+import {
+  Vec3,
+  PREDEFINED_SPACES,
+  hslToSrgb,
+  hwbToSrgb,
+  labToXyzD50,
+  linearToSrgb,
+  oklabToLinearSrgb,
+  polarToRectangular,
+  xyzD50ToD65,
+  xyzToLinearSrgb,
+} from './colorSpaces';
+
+const NUMBER = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|rad|grad|turn)?$/;
+// Half an 8-bit step, so rounding noise in hand-written values does not count as out of gamut
+const GAMUT_EPSILON = 0.5 / 255;
+
+/**
+ * Thrown internally to abort parsing; converted into a ColorParseError.
+ * @private
+ */
+class ParseFailure extends Error {}
+
+interface ComponentOptions {
+  /** Value that 100% maps to; percentages are rejected when omitted */
+  percent?: number;
+  /** Whether the component is a hue that accepts angle units */
+  hue?: boolean;
+}
+
+/**
+ * Parses a single numeric component; `none` resolves to 0.
+ * @private
+ */
+const parseComponent = (token: string, name: string, { percent, hue }: ComponentOptions = {}): number => {
+  if (token === 'none') return 0;
+
+  const match = token.match(NUMBER);
+  if (!match) throw new ParseFailure(`invalid ${name} "${token}"`);
+
+  const value = parseFloat(match[1]);
+  switch (match[2]) {
+    case undefined: return value;
+    case '%':
+      if (percent === undefined) throw new ParseFailure(`${name} does not accept percentages`);
+      return (value / 100) * percent;
+    default: {
+      if (!hue) throw new ParseFailure(`${name} does not accept the unit "${match[2]}"`);
+      const toDegrees: Record<string, number> = { deg: 1, rad: 180 / Math.PI, grad: 0.9, turn: 360 };
+      return value * toDegrees[match[2]];
+    }
+  }
+};
+
+/**
+ * Splits function arguments into channels and alpha, for both modern and legacy comma syntax.
+ * @private
+ */
+const splitArguments = (args: string, fn: string): { channels: string[]; alpha?: string } => {
+  const tokens = args.replace(/\//g, ' / ').split(/[\s,]+/).filter(Boolean);
+  const slash = tokens.indexOf('/');
+  // Only the legacy comma syntax may pass alpha as a fourth argument
+  const legacy = args.includes(',');
+
+  const channels = slash === -1 ? tokens.slice(0, 3) : tokens.slice(0, slash);
+  const rest = slash === -1 ? tokens.slice(3) : tokens.slice(slash + 1);
+
+  if (slash === -1 && !legacy && rest.length > 0) {
+    throw new ParseFailure(`${fn}() separates alpha with "/"`);
+  }
+
+  if (channels.length !== 3 || rest.length > 1) {
+    throw new ParseFailure(`${fn}() expects 3 channels and an optional alpha`);
+  }
+  return { channels, alpha: rest[0] };
+};
+
+/**
+ * Parses an alpha component in 0–1 or as a percentage.
+ * @private
+ */
+const parseAlpha = (token: string | undefined): number => {
+  if (token === undefined) return 1;
+  return Math.min(1, Math.max(0, parseComponent(token, 'alpha', { percent: 1 })));
+};
+
+/**
+ * Parses `#rgb`, `#rgba`, `#rrggbb` and `#rrggbbaa`.
+ * @private
+ */
+const parseHex = (hex: string): { rgb: Vec3; alpha: number } => {
+  if (!/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) {
+    throw new ParseFailure('hex colors need 3, 4, 6 or 8 hex digits');
+  }
+
+  let digits = hex.slice(1);
+  if (digits.length <= 4) {
+    digits = digits.split('').map(char => char + char).join('');
+  }
+
+  const channel = (index: number) => parseInt(digits.slice(index * 2, index * 2 + 2), 16) / 255;
+  return {
+    rgb: [channel(0), channel(1), channel(2)],
+    alpha: digits.length === 8 ? channel(3) : 1,
+  };
+};
+
+/**
+ * Converts the channels of a color function to gamma-encoded sRGB in 0–1.
+ * @private
+ */
+const parseFunction = (fn: string, channels: string[]): { rgb: Vec3; format: ColorFormat } => {
+  const [c1, c2, c3] = channels;
+
+  switch (fn) {
+    case 'rgb':
+    case 'rgba':
+      return {
+        format: 'rgb',
+        rgb: [
+          parseComponent(c1, 'red', { percent: 255 }) / 255,
+          parseComponent(c2, 'green', { percent: 255 }) / 255,
+          parseComponent(c3, 'blue', { percent: 255 }) / 255,
+        ],
+      };
+    case 'hsl':
+    case 'hsla': {
+      const h = parseComponent(c1, 'hue', { hue: true });
+      const s = parseComponent(c2, 'saturation', { percent: 100 }) / 100;
+      const l = parseComponent(c3, 'lightness', { percent: 100 }) / 100;
+      return { format: 'hsl', rgb: hslToSrgb(((h % 360) + 360) % 360, Math.max(0, s), l) };
+    }
+    case 'hwb': {
+      const h = parseComponent(c1, 'hue', { hue: true });
+      const white = parseComponent(c2, 'whiteness', { percent: 100 }) / 100;
+      const black = parseComponent(c3, 'blackness', { percent: 100 }) / 100;
+      return { format: 'hwb', rgb: hwbToSrgb(((h % 360) + 360) % 360, white, black) };
+    }
+    case 'lab':
+    case 'lch': {
+      const l = Math.max(0, parseComponent(c1, 'lightness', { percent: 100 }));
+      const lab: Vec3 = fn === 'lab'
+        ? [l, parseComponent(c2, 'a', { percent: 125 }), parseComponent(c3, 'b', { percent: 125 })]
+        : polarToRectangular([
+          l,
+          Math.max(0, parseComponent(c2, 'chroma', { percent: 150 })),
+          parseComponent(c3, 'hue', { hue: true }),
+        ]);
+      const linear = xyzToLinearSrgb(xyzD50ToD65(labToXyzD50(lab)));
+      return { format: fn, rgb: linear.map(linearToSrgb) as Vec3 };
+    }
+    case 'oklab':
+    case 'oklch': {
+      const l = Math.max(0, parseComponent(c1, 'lightness', { percent: 1 }));
+      const lab: Vec3 = fn === 'oklab'
+        ? [l, parseComponent(c2, 'a', { percent: 0.4 }), parseComponent(c3, 'b', { percent: 0.4 })]
+        : polarToRectangular([
+          l,
+          Math.max(0, parseComponent(c2, 'chroma', { percent: 0.4 })),
+          parseComponent(c3, 'hue', { hue: true }),
+        ]);
+      return { format: fn, rgb: oklabToLinearSrgb(lab).map(linearToSrgb) as Vec3 };
+    }
+    default:
+      throw new ParseFailure(`unsupported color function ${fn}()`);
+  }
+};
+
+/**
+ * Parses the arguments of `color(<space> c1 c2 c3 [/ alpha])`.
+ * @private
+ */
+const parseColorFunction = (args: string): { rgb: Vec3; alpha: number } => {
+  const [space, ...rest] = args.trim().split(/\s+/);
+  // Own keys only, so names like `constructor` are not found on the prototype
+  const toXyz = Object.hasOwn(PREDEFINED_SPACES, space) ? PREDEFINED_SPACES[space] : undefined;
+  if (!toXyz) throw new ParseFailure(`unsupported color space "${space}"`);
+
+  const { channels, alpha } = splitArguments(rest.join(' '), 'color');
+  const values = channels.map((token, i) => parseComponent(token, `channel ${i + 1}`, { percent: 1 })) as Vec3;
+  const linear = xyzToLinearSrgb(toXyz(values));
+
+  return { rgb: linear.map(linearToSrgb) as Vec3, alpha: parseAlpha(alpha) };
+};
+
+/**
+ * @function parseColor
+ * @description Parses any CSS color: hex (3/4/6/8 digits), named colors, `transparent`,
+ * `rgb[a]()`, `hsl[a]()`, `hwb()`, `lab()`, `lch()`, `oklab()`, `oklch()` and `color()`.
+ * Colors outside sRGB are clipped.
+ * @param {string} input - Color string
+ * @returns {ColorParseResult} Parsed sRGB color, or a parse error
+ */
+export function parseColor(input: string): ColorParseResult {
+  const value = input.trim().toLowerCase();
+
+  try {
+    let rgb: Vec3;
+    let alpha = 1;
+    let format: ColorFormat;
+
+    if (value.startsWith('#')) {
+      ({ rgb, alpha } = parseHex(value));
+      format = 'hex';
+    } else if (value === 'transparent') {
+      rgb = [0, 0, 0];
+      alpha = 0;
+      format = 'named';
+    } else if (Object.hasOwn(cssNamedColors, value)) {
+      ({ rgb } = parseHex(cssNamedColors[value].toLowerCase()));
+      format = 'named';
+    } else {
+      const match = value.match(/^([a-z][a-z0-9-]*)\(\s*(.*?)\s*\)$/);
+      if (!match) throw new ParseFailure('not a hex color, named color or color function');
+
+      const [, fn, args] = match;
+      if (fn === 'color') {
+        ({ rgb, alpha } = parseColorFunction(args));
+        format = 'color';
+      } else {
+        const split = splitArguments(args, fn);
+        ({ rgb, format } = parseFunction(fn, split.channels));
+        alpha = parseAlpha(split.alpha);
+      }
+    }
+
+    const clipped = rgb.some(channel => channel < -GAMUT_EPSILON || channel > 1 + GAMUT_EPSILON);
+    const [r, g, b] = rgb.map(channel => Math.min(255, Math.max(0, channel * 255)));
+
+    return { ok: true, color: { r, g, b, alpha, format, clipped } };
+  } catch (error) {
+    if (!(error instanceof ParseFailure)) throw error;
+    return { ok: false, error: { input, reason: error.message } };
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, test } from 'bun:test';
+import { parseColorPhrase } from './colorPhrase';
+import { ThemeGenerator } from '../generators/themeGenerator';
+
+describe('parseColorPhrase', () => {
+  test('applies modifiers to the base color', () => {
+    const result = parseColorPhrase('light tan');
+    expect(result).toMatchObject({ ok: true, steps: [{ word: 'tan' }, { word: 'light', modifier: 'light' }] });
+  });
+
+  test('corrects typos in names without modifiers', () => {
+    expect(parseColorPhrase('gren')).toMatchObject({ ok: true, hex: '#008000' });
+  });
+
+  test.each(['blue constructor', 'toString blue', '__proto__'])('fails without throwing on %s', input => {
+    expect(parseColorPhrase(input)).toMatchObject({ ok: false });
+  });
+});
+
+describe('ThemeGenerator.resolveColor', () => {
+  test('reads modifier phrases as phrases rather than misspelled names', () => {
+    const phrase = parseColorPhrase('light tan');
+    expect(phrase.ok && ThemeGenerator.resolveColor('light tan')).toBe(phrase.ok && phrase.hex);
+  });
+
+  test('resolves exact and misspelled names', () => {
+    expect(ThemeGenerator.resolveColor('lightcyan').toLowerCase()).toBe('#e0ffff');
+    expect(ThemeGenerator.resolveColor('drak slate blu').toLowerCase()).toBe('#483d8b');
+  });
+
+  test('throws a readable error for unknown words', () => {
+    expect(() => ThemeGenerator.resolveColor('blue constructor')).toThrow('Unable to resolve color: blue constructor');
+  });
+});
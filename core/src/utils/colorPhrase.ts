@@ -0,0 +1,217 @@
+/**
+ * @module utils/colorPhrase
+ * @description Deterministic parser for descriptive color phrases such as "muted teal",
+ * "deep ocean blue" or "pastel pink, a bit warmer"
+ */
+
+import { ColorModifier, ColorPhraseResult, ColorPhraseStep, OKLCH } from '../types/color';
+import { findColorByWord } from '../constants/colorWords';
+import { ColorConverter } from './colorConverter';
+
+/** Words naming each modifier, including comparatives */
+const MODIFIER_WORDS: Record<string, ColorModifier> = {
+  light: 'light',
+  lighter: 'light',
+  pale: 'pale',
+  paler: 'pale',
+  dark: 'dark',
+  darker: 'dark',
+  deep: 'deep',
+  deeper: 'deep',
+  muted: 'muted',
+  vivid: 'vivid',
+  bright: 'vivid',
+  brighter: 'vivid',
+  pastel: 'pastel',
+  dusty: 'dusty',
+  warm: 'warm',
+  warmer: 'warm',
+  cool: 'cool',
+  cooler: 'cool',
+};
+
+/** Words scaling the modifier that follows them */
+const INTENSITY_WORDS: Record<string, number> = {
+  bit: 0.5,
+  little: 0.5,
+  touch: 0.5,
+  slightly: 0.5,
+  somewhat: 0.5,
+  very: 1.5,
+  much: 1.5,
+  really: 1.5,
+  extra: 1.5,
+};
+
+/** Words carrying no meaning for the color */
+const FILLER_WORDS = new Set(['a', 'an', 'and', 'but', 'more', 'of', 'shade', 'tone', 'with']);
+
+/** Hues that warm and cool colors rotate toward: orange and blue */
+const WARM_HUE = 60;
+const COOL_HUE = 240;
+
+/**
+ * Rotates a hue toward a target by up to `degrees`, the short way round.
+ * @private
+ */
+const rotateToward = (hue: number, target: number, degrees: number): number => {
+  const difference = ((target - hue + 540) % 360) - 180;
+  const rotation = Math.sign(difference) * Math.min(Math.abs(difference), degrees);
+  return (hue + rotation + 360) % 360;
+};
+
+/**
+ * Shifts the temperature of a color; colors without a hue are tinted with the target hue.
+ * @private
+ */
+const shiftTemperature = ({ l, c, h }: OKLCH, target: number, amount: number): OKLCH =>
+  c < 0.02
+    ? { l, c: Math.max(c, 0.02 * amount), h: target }
+    : { l, c, h: rotateToward(h, target, 15 * amount) };
+
+/** How each modifier changes a color in OKLCH, scaled by its amount */
+const ADJUSTMENTS: Record<ColorModifier, (color: OKLCH, amount: number) => OKLCH> = {
+  light: ({ l, c, h }, amount) => ({ l: l + 0.12 * amount, c, h }),
+  pale: ({ l, c, h }, amount) => ({ l: l + 0.18 * amount, c: c * (1 - 0.4 * Math.min(1, amount)), h }),
+  dark: ({ l, c, h }, amount) => ({ l: l - 0.15 * amount, c, h }),
+  deep: ({ l, c, h }, amount) => ({ l: l - 0.1 * amount, c: c * (1 + 0.2 * amount), h }),
+  muted: ({ l, c, h }, amount) => ({ l, c: c * (1 - 0.45 * Math.min(1, amount)), h }),
+  vivid: ({ l, c, h }, amount) => ({ l, c: c * (1 + 0.35 * amount), h }),
+  pastel: ({ l, c, h }, amount) => {
+    const t = Math.min(1, amount);
+    return { l: l + (0.88 - l) * t, c: c + (Math.min(c, 0.08) - c) * t, h };
+  },
+  dusty: ({ l, c, h }, amount) => {
+    const t = Math.min(1, amount);
+    return { l: l + (0.6 - l) * 0.3 * t, c: c * (1 - 0.55 * t), h };
+  },
+  warm: (color, amount) => shiftTemperature(color, WARM_HUE, amount),
+  cool: (color, amount) => shiftTemperature(color, COOL_HUE, amount),
+};
+
+/**
+ * Describes how the lightness, chroma and hue of a color changed.
+ * @private
+ */
+const describeChange = (before: OKLCH, after: OKLCH): string => {
+  const changes: string[] = [];
+  if (Math.abs(after.l - before.l) >= 0.005) {
+    changes.push(`lightness ${(before.l * 100).toFixed(0)}% → ${(after.l * 100).toFixed(0)}%`);
+  }
+  if (Math.abs(after.c - before.c) >= 0.005) {
+    changes.push(`chroma ${before.c.toFixed(2)} → ${after.c.toFixed(2)}`);
+  }
+  if (before.c >= 0.02 && Math.abs(after.h - before.h) >= 0.5) {
+    changes.push(`hue ${before.h.toFixed(0)}° → ${after.h.toFixed(0)}°`);
+  }
+  return changes.length > 0 ? changes.join(', ') : 'no visible change';
+};
+
+/**
+ * Resolves the base color of a phrase: a CSS color, a color name, or the last words of the
+ * text that form a color name, so "ocean blue" resolves to blue.
+ * @private
+ */
+const resolveBase = (words: string[]): { hex: string; name: string; ignored: string[] } | null => {
+  const text = words.join(' ');
+  if (ColorConverter.parse(text).ok) {
+    return { hex: ColorConverter.toHex(text), name: text, ignored: [] };
+  }
+
+  for (let start = 0; start < words.length; start++) {
+    const name = words.slice(start).join(' ');
+    const hex = findColorByWord(name);
+    if (hex) {
+      return { hex, name, ignored: words.slice(0, start) };
+    }
+  }
+  return null;
+};
+
+/**
+ * Builds the result for a phrase that names a single color.
+ * @private
+ */
+const plainColor = (text: string, hex: string): ColorPhraseResult => {
+  const description = `${text} is ${hex}`;
+  return { ok: true, hex, steps: [{ word: text, amount: 1, hex, description }], explanation: description };
+};
+
+/**
+ * @function parseColorPhrase
+ * @description Resolves a descriptive color phrase: a base color (any CSS color or color name)
+ * combined with modifiers for lightness (light, pale, dark, deep), saturation (muted, vivid,
+ * pastel, dusty) and temperature (warm, cool, and comparatives such as "warmer"). "a bit",
+ * "slightly" and "very" scale the modifier after them. Modifiers apply in OKLCH, in the order
+ * written, and the result is mapped into sRGB. Color names with small typos are accepted,
+ * e.g. "gren", once the text is known not to be a phrase.
+ * @param {string} input - Color phrase, e.g. "pastel pink, a bit warmer"
+ * @returns {ColorPhraseResult} Hex color with the steps taken, or an error
+ */
+export function parseColorPhrase(input: string): ColorPhraseResult {
+  const text = input.trim();
+  const fail = (reason: string): ColorPhraseResult => ({ ok: false, error: { input, reason } });
+
+  // A plain CSS color, which may itself contain commas and spaces, or a color name such as "light sea green"
+  const parsed = ColorConverter.parse(text);
+  const plain = parsed.ok ? ColorConverter.toHex(text) : findColorByWord(text, { maxDistance: 0 });
+  if (plain) {
+    return plainColor(text, plain);
+  }
+
+  const modifiers: { word: string; modifier: ColorModifier; amount: number }[] = [];
+  const baseWords: string[] = [];
+  let intensity = 1;
+  for (const word of text.toLowerCase().split(/[\s,]+/).filter(Boolean)) {
+    // Own keys only, so words like `constructor` are not found on the prototype
+    if (Object.hasOwn(MODIFIER_WORDS, word)) {
+      modifiers.push({ word, modifier: MODIFIER_WORDS[word], amount: intensity });
+      intensity = 1;
+    } else if (Object.hasOwn(INTENSITY_WORDS, word)) {
+      intensity = INTENSITY_WORDS[word];
+    } else if (!FILLER_WORDS.has(word)) {
+      baseWords.push(word);
+    }
+  }
+
+  if (modifiers.length === 0 && !parsed.ok) {
+    // Typos are corrected last, so a phrase such as "light tan" is never read as a misspelled name
+    const corrected = findColorByWord(text);
+    return corrected ? plainColor(text, corrected) : { ok: false, error: parsed.error };
+  }
+  if (baseWords.length === 0) {
+    return fail('no base color to modify');
+  }
+
+  const base = resolveBase(baseWords);
+  if (!base) {
+    return fail(`unknown color "${baseWords.join(' ')}"`);
+  }
+
+  const ignored = base.ignored.length > 0 ? ` (ignoring "${base.ignored.join(' ')}")` : '';
+  const steps: ColorPhraseStep[] = [
+    { word: base.name, amount: 1, hex: base.hex, description: `${base.name} is ${base.hex}${ignored}` },
+  ];
+  let color = ColorConverter.hexToOklch(base.hex);
+  for (const { word, modifier, amount } of modifiers) {
+    const adjusted = ADJUSTMENTS[modifier](color, amount);
+    const hex = ColorConverter.oklchToHex({
+      l: Math.min(1, Math.max(0, adjusted.l)),
+      c: Math.max(0, adjusted.c),
+      h: adjusted.h,
+    });
+    // Measured after gamut mapping, which may undo part of the change
+    const next = ColorConverter.hexToOklch(hex);
+    const scale = amount === 1 ? '' : ` ×${amount}`;
+    steps.push({ word, modifier, amount, hex, description: `${word}${scale}: ${describeChange(color, next)}` });
+    color = next;
+  }
+
+  const hex = steps[steps.length - 1].hex;
+  return {
+    ok: true,
+    hex,
+    steps,
+    explanation: [...steps.map(step => step.description), `→ ${hex}`].join('\n'),
+  };
+}
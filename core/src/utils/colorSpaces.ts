@@ -0,0 +1,352 @@
+/**
+ * @module utils/colorSpaces
+ * @description Color space math shared by the parser and converter.
+ * Matrices follow the CSS Color Module Level 4 sample code and Björn Ottosson's OKLab.
+ */
+
+export type Vec3 = [number, number, number];
+type Matrix3 = [Vec3, Vec3, Vec3];
+
+const multiply = (m: Matrix3, [x, y, z]: Vec3): Vec3 => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z,
+];
+
+const LINEAR_SRGB_TO_XYZ: Matrix3 = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+
+const D65_TO_D50: Matrix3 = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+
+const D50_TO_D65: Matrix3 = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+
+const LINEAR_P3_TO_XYZ: Matrix3 = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+  [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+  [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+  [0, 0.028072693049087428, 1.060985057710791],
+];
+
+const LINEAR_A98_TO_XYZ: Matrix3 = [
+  [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+  [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+  [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+];
+
+const LINEAR_PROPHOTO_TO_XYZ_D50: Matrix3 = [
+  [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+  [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+  [0, 0, 0.8251046025104602],
+];
+
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+
+/**
+ * @function srgbToLinear
+ * @description Removes the sRGB transfer curve from a channel in 0–1
+ */
+export function srgbToLinear(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 0.04045 ? value / 12.92 : Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * @function linearToSrgb
+ * @description Applies the sRGB transfer curve to a linear channel in 0–1
+ */
+export function linearToSrgb(value: number): number {
+  const abs = Math.abs(value);
+  return abs <= 0.0031308 ? value * 12.92 : Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+}
+
+/**
+ * @function linearSrgbToXyz
+ * @description Converts linear sRGB to CIE XYZ (D65)
+ */
+export function linearSrgbToXyz(rgb: Vec3): Vec3 {
+  return multiply(LINEAR_SRGB_TO_XYZ, rgb);
+}
+
+/**
+ * @function xyzToLinearSrgb
+ * @description Converts CIE XYZ (D65) to linear sRGB
+ */
+export function xyzToLinearSrgb(xyz: Vec3): Vec3 {
+  return multiply(XYZ_TO_LINEAR_SRGB, xyz);
+}
+
+/**
+ * @function xyzD50ToD65
+ * @description Chromatic adaptation from D50 to D65 (Bradford)
+ */
+export function xyzD50ToD65(xyz: Vec3): Vec3 {
+  return multiply(D50_TO_D65, xyz);
+}
+
+/**
+ * @function xyzD65ToD50
+ * @description Chromatic adaptation from D65 to D50 (Bradford)
+ */
+export function xyzD65ToD50(xyz: Vec3): Vec3 {
+  return multiply(D65_TO_D50, xyz);
+}
+
+/**
+ * @function labToXyzD50
+ * @description Converts CIE Lab to CIE XYZ (D50)
+ */
+export function labToXyzD50([l, a, b]: Vec3): Vec3 {
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+
+  const x = Math.pow(fx, 3) > LAB_EPSILON ? Math.pow(fx, 3) : (116 * fx - 16) / LAB_KAPPA;
+  const y = l > LAB_KAPPA * LAB_EPSILON ? Math.pow(fy, 3) : l / LAB_KAPPA;
+  const z = Math.pow(fz, 3) > LAB_EPSILON ? Math.pow(fz, 3) : (116 * fz - 16) / LAB_KAPPA;
+
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+}
+
+/**
+ * @function xyzD50ToLab
+ * @description Converts CIE XYZ (D50) to CIE Lab
+ */
+export function xyzD50ToLab(xyz: Vec3): Vec3 {
+  const [fx, fy, fz] = xyz.map((value, i) => {
+    const scaled = value / D50_WHITE[i];
+    return scaled > LAB_EPSILON ? Math.cbrt(scaled) : (LAB_KAPPA * scaled + 16) / 116;
+  });
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * @function linearSrgbToOklab
+ * @description Converts linear sRGB to OKLab
+ */
+export function linearSrgbToOklab([r, g, b]: Vec3): Vec3 {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return [
+    0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+  ];
+}
+
+/**
+ * @function oklabToLinearSrgb
+ * @description Converts OKLab to linear sRGB
+ */
+export function oklabToLinearSrgb([L, a, b]: Vec3): Vec3 {
+  const l = Math.pow(L + 0.3963377774 * a + 0.2158037573 * b, 3);
+  const m = Math.pow(L - 0.1055613458 * a - 0.0638541728 * b, 3);
+  const s = Math.pow(L - 0.0894841775 * a - 1.2914855480 * b, 3);
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+  ];
+}
+
+/**
+ * @function polarToRectangular
+ * @description Converts LCH-style lightness, chroma and hue (degrees) to Lab-style coordinates
+ */
+export function polarToRectangular([l, c, h]: Vec3): Vec3 {
+  const radians = (h * Math.PI) / 180;
+  return [l, c * Math.cos(radians), c * Math.sin(radians)];
+}
+
+/**
+ * @function rectangularToPolar
+ * @description Converts Lab-style coordinates to lightness, chroma and hue (degrees)
+ */
+export function rectangularToPolar([l, a, b]: Vec3): Vec3 {
+  const hue = (Math.atan2(b, a) * 180) / Math.PI;
+  return [l, Math.sqrt(a * a + b * b), (hue + 360) % 360];
+}
+
+/**
+ * @function hslToSrgb
+ * @description Converts HSL (hue in degrees, saturation and lightness in 0–1) to sRGB in 0–1
+ */
+export function hslToSrgb(h: number, s: number, l: number): Vec3 {
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * @function hwbToSrgb
+ * @description Converts HWB (hue in degrees, whiteness and blackness in 0–1) to sRGB in 0–1
+ */
+export function hwbToSrgb(h: number, white: number, black: number): Vec3 {
+  if (white + black >= 1) {
+    const gray = white / (white + black);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb(h, 1, 0.5).map(value => value * (1 - white - black) + white) as Vec3;
+}
+
+/** Machado, Oliveira & Fernandes (2009) simulation matrices at full severity, in linear sRGB */
+const DICHROMACY_MATRICES: Record<'protanopia' | 'deuteranopia' | 'tritanopia', Matrix3> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+/**
+ * @function simulateDeficiency
+ * @description Simulates a color vision deficiency on a linear sRGB color. Dichromacies use the
+ * Machado 2009 matrices and achromatopsia keeps only luminance; partial severities blend
+ * linearly with normal vision.
+ */
+export function simulateDeficiency(
+  rgb: Vec3,
+  deficiency: 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia',
+  severity: number
+): Vec3 {
+  const simulated: Vec3 = deficiency === 'achromatopsia'
+    ? (() => {
+      const y = linearSrgbToXyz(rgb)[1];
+      return [y, y, y];
+    })()
+    : multiply(DICHROMACY_MATRICES[deficiency], rgb);
+
+  const amount = Math.min(1, Math.max(0, severity));
+  return rgb.map((value, i) => Math.min(1, Math.max(0, value + (simulated[i] - value) * amount))) as Vec3;
+}
+
+/**
+ * @function ciede2000
+ * @description CIEDE2000 color difference between two CIE Lab colors
+ */
+export function ciede2000([l1, a1, b1]: Vec3, [l2, a2, b2]: Vec3): number {
+  const toRadians = Math.PI / 180;
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const meanC7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + Math.pow(25, 7))));
+
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => (b === 0 && a === 0 ? 0 : (Math.atan2(b, a) / toRadians + 360) % 360);
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const deltaL = l2 - l1;
+  const deltaC = c2p - c1p;
+  let deltaH = 0;
+  if (c1p * c2p !== 0) {
+    deltaH = h2p - h1p;
+    if (deltaH > 180) deltaH -= 360;
+    else if (deltaH < -180) deltaH += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin((deltaH / 2) * toRadians);
+
+  const meanL = (l1 + l2) / 2;
+  const meanC = (c1p + c2p) / 2;
+  let meanH = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    meanH = Math.abs(h1p - h2p) > 180
+      ? (h1p + h2p + (h1p + h2p < 360 ? 360 : -360)) / 2
+      : (h1p + h2p) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos((meanH - 30) * toRadians)
+    + 0.24 * Math.cos(2 * meanH * toRadians)
+    + 0.32 * Math.cos((3 * meanH + 6) * toRadians)
+    - 0.2 * Math.cos((4 * meanH - 63) * toRadians);
+  const sl = 1 + (0.015 * Math.pow(meanL - 50, 2)) / Math.sqrt(20 + Math.pow(meanL - 50, 2));
+  const sc = 1 + 0.045 * meanC;
+  const sh = 1 + 0.015 * meanC * t;
+  const meanC7p = Math.pow(meanC, 7);
+  const rt = -2 * Math.sqrt(meanC7p / (meanC7p + Math.pow(25, 7)))
+    * Math.sin(60 * Math.exp(-Math.pow((meanH - 275) / 25, 2)) * toRadians);
+
+  return Math.sqrt(
+    Math.pow(deltaL / sl, 2)
+    + Math.pow(deltaC / sc, 2)
+    + Math.pow(deltaHp / sh, 2)
+    + rt * (deltaC / sc) * (deltaHp / sh)
+  );
+}
+
+/**
+ * @constant PREDEFINED_SPACES
+ * @description Converters from the `color()` function's predefined spaces to CIE XYZ (D65)
+ */
+export const PREDEFINED_SPACES: Record<string, (channels: Vec3) => Vec3> = {
+  'srgb': channels => linearSrgbToXyz(channels.map(srgbToLinear) as Vec3),
+  'srgb-linear': channels => linearSrgbToXyz(channels),
+  'display-p3': channels => multiply(LINEAR_P3_TO_XYZ, channels.map(srgbToLinear) as Vec3),
+  'a98-rgb': channels => multiply(
+    LINEAR_A98_TO_XYZ,
+    channels.map(value => Math.sign(value) * Math.pow(Math.abs(value), 563 / 256)) as Vec3
+  ),
+  'prophoto-rgb': channels => xyzD50ToD65(multiply(
+    LINEAR_PROPHOTO_TO_XYZ_D50,
+    channels.map(value => {
+      const abs = Math.abs(value);
+      return abs <= 16 / 512 ? value / 16 : Math.sign(value) * Math.pow(abs, 1.8);
+    }) as Vec3
+  )),
+  'rec2020': channels => multiply(
+    LINEAR_REC2020_TO_XYZ,
+    channels.map(value => {
+      const alpha = 1.09929682680944;
+      const beta = 0.018053968510807;
+      const abs = Math.abs(value);
+      return abs < beta * 4.5 ? value / 4.5 : Math.sign(value) * Math.pow((abs + alpha - 1) / alpha, 1 / 0.45);
+    }) as Vec3
+  ),
+  'xyz': channels => channels,
+  'xyz-d65': channels => channels,
+  'xyz-d50': channels => xyzD50ToD65(channels),
+};